@@ -0,0 +1,58 @@
+/**
+ * Inbound attachment helpers: classify downloaded attachments and hand them
+ * to the agent as inline images or as files saved under the plugin directory.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { BBAttachment } from "./types.js";
+
+// Image formats the agent accepts inline, by their leading bytes
+const INLINE_IMAGE_SIGNATURES: Array<{ mimeType: string; matches: (data: Buffer) => boolean }> = [
+  { mimeType: "image/jpeg", matches: (d) => d[0] === 0xff && d[1] === 0xd8 && d[2] === 0xff },
+  {
+    mimeType: "image/png",
+    matches: (d) =>
+      d.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  { mimeType: "image/gif", matches: (d) => /^GIF8[79]a$/.test(d.toString("latin1", 0, 6)) },
+  {
+    mimeType: "image/webp",
+    matches: (d) => d.toString("latin1", 0, 4) === "RIFF" && d.toString("latin1", 8, 12) === "WEBP",
+  },
+];
+
+// MIME type of a downloaded image the agent can take inline (JPEG, PNG, GIF,
+// WebP), or null. The bytes decide, not the reported type: BlueBubbles may
+// convert HEIC photos to JPEG on download, and HEIC itself is saved as a file.
+export function inlineImageType(data: Buffer): string | null {
+  return INLINE_IMAGE_SIGNATURES.find((sig) => sig.matches(data))?.mimeType ?? null;
+}
+
+export function toDataUri(data: Buffer, mimeType: string): string {
+  return `data:${mimeType};base64,${data.toString("base64")}`;
+}
+
+// Make a string safe to use as a single path segment
+export function sanitizePathSegment(name: string): string {
+  const cleaned = name.replace(/[^a-zA-Z0-9._+-]/g, "_").replace(/^\.+/, "");
+  return cleaned.slice(0, 128) || "attachment";
+}
+
+// Per-session directory for saved attachments
+export function sessionAttachmentDir(pluginDir: string, sessionKey: string): string {
+  return path.join(pluginDir, "attachments", sanitizePathSegment(sessionKey));
+}
+
+// Write an attachment into the session directory and return its path
+export async function saveAttachment(
+  dir: string,
+  attachment: BBAttachment,
+  data: Buffer,
+): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const filename = `${sanitizePathSegment(attachment.guid)}-${sanitizePathSegment(attachment.transferName || "attachment")}`;
+  const filePath = path.join(dir, filename);
+  await writeFile(filePath, data);
+  return filePath;
+}
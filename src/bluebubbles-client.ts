@@ -1,61 +1,239 @@
 import { io, type Socket } from "socket.io-client";
+import {
+  BlueBubblesError,
+  BlueBubblesNetworkError,
+  BlueBubblesRateLimitError,
+  BlueBubblesServerError,
+  BlueBubblesTimeoutError,
+  errorFromResponse,
+} from "./errors.js";
 import type {
   BBApiResponse,
   BBAttachment,
   BBChat,
+  BBContact,
   BBMessage,
   BBTypingNotification,
+  BBWebhook,
 } from "./types.js";
 
 export type BBEventHandler = (message: BBMessage) => void;
 export type BBTypingHandler = (notification: BBTypingNotification) => void;
+export type BBConnectHandler = () => void;
+
+export type ConnectionState = "connecting" | "connected" | "degraded" | "reconnecting" | "stopped";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  // When the current state was entered
+  since: number;
+  reconnectAttempts: number;
+  lastEventAt: number | null;
+  lastPingAt: number | null;
+  lastError: string | null;
+}
+
+export type BBStateChangeHandler = (status: ConnectionStatus, previous: ConnectionState) => void;
+
+export interface BlueBubblesClientOptions {
+  // "query" (the default) puts the password in the URL, which is how
+  // BlueBubbles reads it; "header" sends an Authorization header instead, for
+  // servers or proxies that accept it
+  authMode?: "header" | "query";
+  // Per-request timeout for API calls
+  timeoutMs?: number;
+  // Timeout for attachment uploads and downloads
+  transferTimeoutMs?: number;
+  // Retries for idempotent calls after a network, timeout, 429 or 5xx error
+  retries?: number;
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+  // How often to ping the server while running; 0 disables health checks
+  healthCheckIntervalMs?: number;
+  // Delay between Socket.IO reconnect attempts
+  reconnectDelayMs?: number;
+}
+
+interface RequestOptions {
+  // Safe to send again if the first attempt may or may not have landed
+  idempotent?: boolean;
+  timeoutMs?: number;
+}
+
+// Typing indicators are cosmetic: one short attempt, no retries
+const TYPING_REQUEST: RequestOptions = { idempotent: false, timeoutMs: 5000 };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 export class BlueBubblesClient {
   private socket: Socket | null = null;
   private serverUrl: string;
   private password: string;
+  private authMode: "header" | "query";
   private onNewMessage: BBEventHandler | null = null;
   private onUpdatedMessage: BBEventHandler | null = null;
   private onTyping: BBTypingHandler | null = null;
+  private onConnect: BBConnectHandler | null = null;
+  private onStateChange: BBStateChangeHandler | null = null;
+  private status: ConnectionStatus = {
+    state: "stopped",
+    since: Date.now(),
+    reconnectAttempts: 0,
+    lastEventAt: null,
+    lastPingAt: null,
+    lastError: null,
+  };
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private healthCheckRunning = false;
+  private healthCheckIntervalMs: number;
+  private reconnectDelayMs: number;
+  private timeoutMs: number;
+  private transferTimeoutMs: number;
+  private retries: number;
+  private retryBaseMs: number;
+  private retryMaxMs: number;
 
-  constructor(serverUrl: string, password: string) {
+  constructor(serverUrl: string, password: string, opts: BlueBubblesClientOptions = {}) {
     this.serverUrl = serverUrl.replace(/\/+$/, "");
     this.password = password;
+    this.authMode = opts.authMode ?? "query";
+    this.timeoutMs = opts.timeoutMs ?? 15_000;
+    this.transferTimeoutMs = opts.transferTimeoutMs ?? 60_000;
+    this.retries = opts.retries ?? 2;
+    this.retryBaseMs = opts.retryBaseMs ?? 500;
+    this.retryMaxMs = opts.retryMaxMs ?? 8_000;
+    this.healthCheckIntervalMs = opts.healthCheckIntervalMs ?? 30_000;
+    this.reconnectDelayMs = opts.reconnectDelayMs ?? 5000;
   }
 
   async connect(): Promise<void> {
+    this.setState("connecting");
     this.socket = io(this.serverUrl, {
-      query: { guid: this.password },
+      ...(this.authMode === "query"
+        ? { query: { guid: this.password } }
+        : { auth: { password: this.password }, extraHeaders: this.authHeaders() }),
       transports: ["websocket", "polling"],
       reconnection: true,
-      reconnectionDelay: 5000,
+      reconnectionDelay: this.reconnectDelayMs,
       reconnectionAttempts: Infinity,
     });
 
     this.socket.on("new-message", (data: BBMessage) => {
+      this.noteEvent();
       this.onNewMessage?.(data);
     });
 
     this.socket.on("updated-message", (data: BBMessage) => {
+      this.noteEvent();
       this.onUpdatedMessage?.(data);
     });
 
     this.socket.on("typing-indicator", (data: BBTypingNotification) => {
+      this.noteEvent();
       this.onTyping?.(data);
     });
 
+    // Fires on the first connection and again after every reconnect
+    this.socket.on("connect", () => {
+      this.status.reconnectAttempts = 0;
+      this.setState("connected");
+      this.onConnect?.();
+    });
+
+    this.socket.on("disconnect", (reason: string) => {
+      this.setState("reconnecting", `Disconnected: ${reason}`);
+    });
+
+    // Socket.IO keeps retrying after a failed attempt
+    this.socket.on("connect_error", (err: Error) => {
+      this.status.reconnectAttempts++;
+      this.setState("reconnecting", err.message);
+    });
+
+    this.startHealthChecks();
+
     return new Promise((resolve, reject) => {
       this.socket?.on("connect", () => resolve());
       this.socket?.on("connect_error", (err: Error) => reject(err));
     });
   }
 
+  // Track connection health with pings only, for webhook mode where there is
+  // no socket. Call after a successful ping.
+  monitor(): void {
+    this.setState("connected");
+    this.startHealthChecks();
+  }
+
   disconnect(): void {
+    this.stopHealthChecks();
     if (this.socket) {
       this.socket.removeAllListeners();
       this.socket.disconnect();
       this.socket = null;
     }
+    this.setState("stopped");
+  }
+
+  getStatus(): ConnectionStatus {
+    return { ...this.status };
+  }
+
+  // Record that an inbound event arrived (webhook handlers call this too)
+  noteEvent(): void {
+    this.status.lastEventAt = Date.now();
+  }
+
+  setOnStateChange(handler: BBStateChangeHandler): void {
+    this.onStateChange = handler;
+  }
+
+  private setState(state: ConnectionState, error?: string): void {
+    if (error !== undefined) this.status.lastError = error;
+    const previous = this.status.state;
+    if (previous === state) return;
+    this.status.state = state;
+    this.status.since = Date.now();
+    this.onStateChange?.(this.getStatus(), previous);
+  }
+
+  private startHealthChecks(): void {
+    this.stopHealthChecks();
+    if (this.healthCheckIntervalMs <= 0) return;
+    this.healthTimer = setInterval(() => void this.checkHealth(), this.healthCheckIntervalMs);
+    this.healthTimer.unref?.();
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  // Ping the server: a failed ping degrades a connected client, and a
+  // successful one restores it
+  async checkHealth(): Promise<void> {
+    if (this.healthCheckRunning) return;
+    this.healthCheckRunning = true;
+    let error: string | null = null;
+    try {
+      if (!(await this.ping())) error = "Ping failed";
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    } finally {
+      this.healthCheckRunning = false;
+    }
+    this.status.lastPingAt = Date.now();
+
+    const { state } = this.status;
+    if (error) {
+      if (state === "connected") this.setState("degraded", error);
+    } else if (state === "degraded") {
+      this.setState(this.socket && !this.socket.connected ? "reconnecting" : "connected");
+    }
   }
 
   setOnNewMessage(handler: BBEventHandler): void {
@@ -70,26 +248,118 @@ export class BlueBubblesClient {
     this.onTyping = handler;
   }
 
+  setOnConnect(handler: BBConnectHandler): void {
+    this.onConnect = handler;
+  }
+
+  // Run `run` with an abort signal that fires after `timeoutMs`. Fetch
+  // failures become network errors and aborts become timeout errors.
+  private async withTimeout<T>(
+    timeoutMs: number,
+    run: (fetchWithSignal: (url: string, init?: RequestInit) => Promise<Response>) => Promise<T>,
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const fetchWithSignal = async (url: string, init: RequestInit = {}) => {
+      try {
+        return await fetch(url, { ...init, signal: controller.signal });
+      } catch (err) {
+        if (controller.signal.aborted) throw new BlueBubblesTimeoutError(timeoutMs, { cause: err });
+        const reason = err instanceof Error ? err.message : String(err);
+        throw new BlueBubblesNetworkError(`BlueBubbles request failed: ${reason}`, { cause: err });
+      }
+    };
+    try {
+      return await run(fetchWithSignal);
+    } catch (err) {
+      if (controller.signal.aborted && !(err instanceof BlueBubblesError)) {
+        throw new BlueBubblesTimeoutError(timeoutMs, { cause: err });
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Retry idempotent calls on retryable errors with exponential backoff and jitter
+  private async withRetry<T>(idempotent: boolean, run: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await run();
+      } catch (err) {
+        const retryable = err instanceof BlueBubblesError && err.retryable;
+        if (!idempotent || !retryable || attempt >= this.retries) throw err;
+        await sleep(this.backoffMs(attempt, err));
+      }
+    }
+  }
+
+  private backoffMs(attempt: number, err: BlueBubblesError): number {
+    if (err instanceof BlueBubblesRateLimitError && err.retryAfterMs !== undefined) {
+      return Math.min(err.retryAfterMs, this.retryMaxMs);
+    }
+    const ceiling = Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** attempt);
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+
+  // Parse a BlueBubbles JSON response, throwing a typed error on failure
+  private async parseResponse<T>(res: Response): Promise<BBApiResponse<T>> {
+    const body = (await res.json().catch(() => null)) as BBApiResponse<T> | null;
+    const status = Math.max(res.status || 0, body?.status || 0);
+    if (status >= 400) {
+      throw errorFromResponse(status, body, res.headers?.get("Retry-After"));
+    }
+    if (!body) {
+      throw new BlueBubblesServerError(`BlueBubbles returned an invalid response (${status})`, {
+        status,
+      });
+    }
+    return body;
+  }
+
+  // Full API URL for a path, with the password only in query auth mode
+  private apiUrl(path: string): string {
+    const url = `${this.serverUrl}/api/v1${path}`;
+    if (this.authMode !== "query") return url;
+    const separator = path.includes("?") ? "&" : "?";
+    return `${url}${separator}password=${encodeURIComponent(this.password)}`;
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.authMode === "query" ? {} : { Authorization: `Bearer ${this.password}` };
+  }
+
   private async apiRequest<T>(
     method: string,
     path: string,
     body?: Record<string, unknown>,
+    opts: RequestOptions = {},
   ): Promise<BBApiResponse<T>> {
-    const url = `${this.serverUrl}/api/v1${path}?password=${encodeURIComponent(this.password)}`;
+    const url = this.apiUrl(path);
     const options: RequestInit = {
       method,
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...this.authHeaders() },
     };
     if (body) {
       options.body = JSON.stringify(body);
     }
-    const res = await fetch(url, options);
-    return (await res.json()) as BBApiResponse<T>;
+    return this.withRetry(opts.idempotent ?? method === "GET", () =>
+      this.withTimeout(opts.timeoutMs ?? this.timeoutMs, async (fetchWithSignal) =>
+        this.parseResponse<T>(await fetchWithSignal(url, options)),
+      ),
+    );
   }
 
+  // False if the server answers with an error; auth, network and timeout
+  // errors are thrown so the caller can report them
   async ping(): Promise<boolean> {
-    const res = await this.apiRequest("GET", "/ping");
-    return res.status === 200;
+    try {
+      const res = await this.apiRequest("GET", "/ping");
+      return res.status === 200;
+    } catch (err) {
+      if (err instanceof BlueBubblesServerError) return false;
+      throw err;
+    }
   }
 
   async sendText(
@@ -101,13 +371,20 @@ export class BlueBubblesClient {
       tempGuid?: string;
     },
   ): Promise<BBApiResponse<BBMessage>> {
-    return this.apiRequest<BBMessage>("POST", "/message/text", {
-      chatGuid,
-      message,
-      method: opts?.method || "apple-script",
-      tempGuid: opts?.tempGuid || crypto.randomUUID(),
-      selectedMessageGuid: opts?.replyToGuid || undefined,
-    });
+    // The tempGuid is fixed before the first attempt, so BlueBubbles can
+    // recognise a retry and never deliver the message twice
+    return this.apiRequest<BBMessage>(
+      "POST",
+      "/message/text",
+      {
+        chatGuid,
+        message,
+        method: opts?.method || "apple-script",
+        tempGuid: opts?.tempGuid || crypto.randomUUID(),
+        selectedMessageGuid: opts?.replyToGuid || undefined,
+      },
+      { idempotent: true },
+    );
   }
 
   async sendReaction(
@@ -125,64 +402,82 @@ export class BlueBubblesClient {
   }
 
   async getChats(limit = 50, offset = 0): Promise<BBApiResponse<BBChat[]>> {
-    return this.apiRequest<BBChat[]>("POST", "/chat/query", {
-      limit,
-      offset,
-      with: ["lastMessage"],
-      sort: "lastmessage",
-    });
+    return this.apiRequest<BBChat[]>(
+      "POST",
+      "/chat/query",
+      { limit, offset, with: ["lastMessage"], sort: "lastmessage" },
+      { idempotent: true },
+    );
   }
 
   async getChatMessages(
     chatGuid: string,
     limit = 50,
     after?: number,
+    sort: "ASC" | "DESC" = "DESC",
   ): Promise<BBApiResponse<BBMessage[]>> {
-    return this.apiRequest<BBMessage[]>("POST", "/message/query", {
-      chatGuid,
-      limit,
-      with: ["chat", "attachment", "handle"],
-      sort: "DESC",
-      after: after || undefined,
-    });
+    return this.apiRequest<BBMessage[]>(
+      "POST",
+      "/message/query",
+      { chatGuid, limit, with: ["chat", "attachment", "handle"], sort, after: after || undefined },
+      { idempotent: true },
+    );
+  }
+
+  // A single message, with its chats and sender handle
+  async getMessage(guid: string): Promise<BBApiResponse<BBMessage>> {
+    return this.apiRequest<BBMessage>(
+      "GET",
+      `/message/${encodeURIComponent(guid)}?with=chats,handle`,
+    );
   }
 
   async getAttachmentMeta(guid: string): Promise<BBApiResponse<BBAttachment>> {
     return this.apiRequest<BBAttachment>("GET", `/attachment/${encodeURIComponent(guid)}`);
   }
 
-  async downloadAttachment(guid: string): Promise<Buffer> {
-    const MAX_BYTES = 10 * 1024 * 1024; // 10MB
-    const url = `${this.serverUrl}/api/v1/attachment/${encodeURIComponent(guid)}/download?password=${encodeURIComponent(this.password)}`;
-    const res = await fetch(url);
-    if (!res.ok) {
-      throw new Error(`Attachment download failed: ${res.status} ${res.statusText}`);
-    }
-    const contentLength = res.headers?.get("Content-Length") ?? null;
-    if (contentLength !== null && parseInt(contentLength, 10) > MAX_BYTES) {
-      throw new Error(`Attachment exceeds 10MB size limit (Content-Length: ${contentLength})`);
-    }
-    if (res.body) {
-      const chunks: Uint8Array[] = [];
-      let totalBytes = 0;
-      const reader = res.body.getReader();
-      for (;;) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        totalBytes += value.length;
-        if (totalBytes > MAX_BYTES) {
-          await reader.cancel();
-          throw new Error(`Attachment exceeds 10MB size limit`);
+  async downloadAttachment(guid: string, maxBytes = 10 * 1024 * 1024): Promise<Buffer> {
+    const limitMb = Number((maxBytes / (1024 * 1024)).toPrecision(2));
+    const url = this.apiUrl(`/attachment/${encodeURIComponent(guid)}/download`);
+    return this.withRetry(true, () =>
+      this.withTimeout(this.transferTimeoutMs, async (fetchWithSignal) => {
+        const res = await fetchWithSignal(url, { headers: this.authHeaders() });
+        if (!res.ok) {
+          throw errorFromResponse(
+            res.status,
+            { message: `Attachment download failed: ${res.status} ${res.statusText}` },
+            res.headers?.get("Retry-After"),
+          );
         }
-        chunks.push(value);
-      }
-      return Buffer.concat(chunks);
-    }
-    const arrayBuf = await res.arrayBuffer();
-    if (arrayBuf.byteLength > MAX_BYTES) {
-      throw new Error(`Attachment exceeds 10MB size limit`);
-    }
-    return Buffer.from(arrayBuf);
+        const contentLength = res.headers?.get("Content-Length") ?? null;
+        if (contentLength !== null && parseInt(contentLength, 10) > maxBytes) {
+          throw new Error(
+            `Attachment exceeds ${limitMb}MB size limit (Content-Length: ${contentLength})`,
+          );
+        }
+        if (res.body) {
+          const chunks: Uint8Array[] = [];
+          let totalBytes = 0;
+          const reader = res.body.getReader();
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            totalBytes += value.length;
+            if (totalBytes > maxBytes) {
+              await reader.cancel();
+              throw new Error(`Attachment exceeds ${limitMb}MB size limit`);
+            }
+            chunks.push(value);
+          }
+          return Buffer.concat(chunks);
+        }
+        const arrayBuf = await res.arrayBuffer();
+        if (arrayBuf.byteLength > maxBytes) {
+          throw new Error(`Attachment exceeds ${limitMb}MB size limit`);
+        }
+        return Buffer.from(arrayBuf);
+      }),
+    );
   }
 
   async sendAttachment(
@@ -190,22 +485,71 @@ export class BlueBubblesClient {
     fileBuffer: Buffer,
     filename: string,
   ): Promise<BBApiResponse<BBMessage>> {
-    const url = `${this.serverUrl}/api/v1/message/attachment?password=${encodeURIComponent(this.password)}`;
+    const url = this.apiUrl("/message/attachment");
     const formData = new FormData();
     formData.append("chatGuid", chatGuid);
+    // Same tempGuid on every attempt, as for sendText
     formData.append("tempGuid", crypto.randomUUID());
     formData.append("name", filename);
     formData.append("attachment", new Blob([fileBuffer]), filename);
 
-    const res = await fetch(url, { method: "POST", body: formData });
-    return (await res.json()) as BBApiResponse<BBMessage>;
+    return this.withRetry(true, () =>
+      this.withTimeout(this.transferTimeoutMs, async (fetchWithSignal) =>
+        this.parseResponse<BBMessage>(
+          await fetchWithSignal(url, {
+            method: "POST",
+            body: formData,
+            headers: this.authHeaders(),
+          }),
+        ),
+      ),
+    );
   }
 
   async getServerInfo(): Promise<BBApiResponse<{ private_api: boolean }>> {
     return this.apiRequest<{ private_api: boolean }>("GET", "/server/info");
   }
 
+  // Show our typing indicator in a chat (requires Private API)
+  async startTyping(chatGuid: string): Promise<BBApiResponse<void>> {
+    return this.apiRequest<void>(
+      "POST",
+      `/chat/${encodeURIComponent(chatGuid)}/typing`,
+      undefined,
+      TYPING_REQUEST,
+    );
+  }
+
+  // Clear our typing indicator in a chat (requires Private API)
+  async stopTyping(chatGuid: string): Promise<BBApiResponse<void>> {
+    return this.apiRequest<void>(
+      "DELETE",
+      `/chat/${encodeURIComponent(chatGuid)}/typing`,
+      undefined,
+      TYPING_REQUEST,
+    );
+  }
+
   async markChatRead(chatGuid: string): Promise<BBApiResponse<void>> {
-    return this.apiRequest<void>("POST", `/chat/${encodeURIComponent(chatGuid)}/read`);
+    return this.apiRequest<void>("POST", `/chat/${encodeURIComponent(chatGuid)}/read`, undefined, {
+      idempotent: true,
+    });
+  }
+
+  // Contacts known to the server's Mac, without avatars
+  async getContacts(): Promise<BBApiResponse<BBContact[]>> {
+    return this.apiRequest<BBContact[]>("GET", "/contact");
+  }
+
+  async listWebhooks(): Promise<BBApiResponse<BBWebhook[]>> {
+    return this.apiRequest<BBWebhook[]>("GET", "/webhook");
+  }
+
+  async createWebhook(url: string, events: string[]): Promise<BBApiResponse<BBWebhook>> {
+    return this.apiRequest<BBWebhook>("POST", "/webhook", { url, events });
+  }
+
+  async deleteWebhook(id: number): Promise<BBApiResponse<void>> {
+    return this.apiRequest<void>("DELETE", `/webhook/${id}`, undefined, { idempotent: true });
   }
 }
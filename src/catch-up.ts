@@ -0,0 +1,123 @@
+/**
+ * Catch-up of messages missed while disconnected. A per-chat cursor of the
+ * last processed `dateCreated` is persisted in the plugin directory; on
+ * (re)connect, newer inbound messages are fetched and replayed in order.
+ */
+
+import type { BlueBubblesClient } from "./bluebubbles-client.js";
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+import type { BBChat, BBMessage } from "./types.js";
+
+interface CursorFile {
+  // Latest dateCreated processed in any chat; the lower bound for chats
+  // that have no cursor of their own yet
+  global: number;
+  chats: Record<string, number>;
+}
+
+export class CursorStore {
+  private filePath: string;
+  private data: CursorFile = { global: 0, chats: {} };
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    const data = await readJsonFile<Partial<CursorFile>>(this.filePath, {});
+    this.data = { global: data.global || 0, chats: { ...data.chats } };
+  }
+
+  get(chatGuid: string): number | undefined {
+    return this.data.chats[chatGuid];
+  }
+
+  get global(): number {
+    return this.data.global;
+  }
+
+  // Copy of the per-chat cursors as they are now
+  snapshot(): Record<string, number> {
+    return { ...this.data.chats };
+  }
+
+  // Move a chat's cursor forward (never backwards) and persist it
+  async advance(chatGuid: string, dateCreated: number): Promise<void> {
+    if (!dateCreated || dateCreated <= (this.data.chats[chatGuid] ?? 0)) return;
+    this.data.chats[chatGuid] = dateCreated;
+    this.data.global = Math.max(this.data.global, dateCreated);
+    const snapshot = JSON.parse(JSON.stringify(this.data)) as CursorFile;
+    const write = this.saving.then(() => writeJsonFile(this.filePath, snapshot));
+    // A failed write is reported to this caller only; later writes still run
+    this.saving = write.catch(() => {});
+    await write;
+  }
+}
+
+export interface CatchUpOptions {
+  maxAgeMs: number;
+  pageSize?: number;
+  now?: number;
+}
+
+export interface CatchUpResult {
+  chats: number;
+  replayed: number;
+}
+
+type CatchUpClient = Pick<BlueBubblesClient, "getChats" | "getChatMessages">;
+
+// Find chats with activity since the last processed message and replay
+// missed inbound messages, oldest first. Messages older than maxAgeMs are
+// never replayed.
+export async function runCatchUp(
+  client: CatchUpClient,
+  cursors: CursorStore,
+  handler: (message: BBMessage) => Promise<void>,
+  opts: CatchUpOptions,
+): Promise<CatchUpResult> {
+  const result: CatchUpResult = { chats: 0, replayed: 0 };
+  // Nothing processed yet (first run): there is no gap to fill
+  if (!cursors.global) return result;
+
+  // Starting points are taken before the first await, so live messages
+  // handled meanwhile can't move a cursor past the ones we missed
+  const starts = cursors.snapshot();
+  const pageSize = opts.pageSize ?? 50;
+  const oldestAllowed = (opts.now ?? Date.now()) - opts.maxAgeMs;
+  const since = Math.max(cursors.global, oldestAllowed);
+
+  // Chats are sorted by last message, so stop at the first one with nothing new
+  const chats: Array<{ chat: BBChat; after: number }> = [];
+  for (let offset = 0; ; offset += pageSize) {
+    const page = (await client.getChats(pageSize, offset)).data || [];
+    const fresh = page.filter((chat) => (chat.lastMessage?.dateCreated ?? 0) > since);
+    for (const chat of fresh) {
+      const after = Math.max(starts[chat.guid] ?? since, oldestAllowed);
+      chats.push({ chat, after });
+    }
+    if (fresh.length < page.length || page.length < pageSize) break;
+  }
+
+  for (const { chat, after: start } of chats) {
+    result.chats++;
+    let after = start;
+    for (;;) {
+      const page = (await client.getChatMessages(chat.guid, pageSize, after, "ASC")).data || [];
+      const messages = page
+        .filter((m) => m.dateCreated > after)
+        .sort((a, b) => a.dateCreated - b.dateCreated);
+      for (const message of messages) {
+        after = message.dateCreated;
+        if (message.isFromMe) continue;
+        if (!message.chats || message.chats.length === 0) message.chats = [chat];
+        await handler(message);
+        result.replayed++;
+      }
+      if (page.length < pageSize || messages.length === 0) break;
+    }
+    await cursors.advance(chat.guid, after);
+  }
+  return result;
+}
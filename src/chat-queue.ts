@@ -0,0 +1,100 @@
+/**
+ * Per-chat FIFO work queue with a global concurrency cap. Work for one chat
+ * runs strictly in order; different chats run in parallel up to the cap.
+ */
+
+export interface ChatQueueStats {
+  active: number;
+  queued: number;
+  chats: Record<string, number>;
+  lastWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface ChatQueueJobInfo {
+  chatGuid: string;
+  waitMs: number;
+  depth: number;
+}
+
+interface Job {
+  run: () => Promise<void>;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+export class ChatQueue {
+  private maxConcurrent: number;
+  private onStart: (info: ChatQueueJobInfo) => void;
+  private jobs = new Map<string, Job[]>();
+  private running = new Set<string>();
+  // Chats with queued work and no job running, in the order they became ready
+  private ready: string[] = [];
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(maxConcurrent = 4, onStart: (info: ChatQueueJobInfo) => void = () => {}) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.onStart = onStart;
+  }
+
+  // Queue work for a chat. Resolves (or rejects) when the work has run.
+  enqueue(chatGuid: string, run: () => Promise<void>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const queue = this.jobs.get(chatGuid) ?? [];
+      queue.push({ run, enqueuedAt: Date.now(), resolve, reject });
+      this.jobs.set(chatGuid, queue);
+      if (queue.length === 1 && !this.running.has(chatGuid)) this.ready.push(chatGuid);
+      this.pump();
+    });
+  }
+
+  depth(chatGuid: string): number {
+    return (this.jobs.get(chatGuid)?.length ?? 0) + (this.running.has(chatGuid) ? 1 : 0);
+  }
+
+  stats(): ChatQueueStats {
+    const chats: Record<string, number> = {};
+    let queued = 0;
+    for (const [chatGuid, queue] of this.jobs) {
+      queued += queue.length;
+      chats[chatGuid] = this.depth(chatGuid);
+    }
+    for (const chatGuid of this.running) {
+      chats[chatGuid] = this.depth(chatGuid);
+    }
+    return {
+      active: this.running.size,
+      queued,
+      chats,
+      lastWaitMs: this.lastWaitMs,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private pump(): void {
+    while (this.running.size < this.maxConcurrent && this.ready.length > 0) {
+      const chatGuid = this.ready.shift() as string;
+      const queue = this.jobs.get(chatGuid);
+      const job = queue?.shift();
+      if (!job) continue;
+      if (queue?.length === 0) this.jobs.delete(chatGuid);
+
+      this.running.add(chatGuid);
+      const waitMs = Date.now() - job.enqueuedAt;
+      this.lastWaitMs = waitMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+      this.onStart({ chatGuid, waitMs, depth: this.depth(chatGuid) });
+
+      Promise.resolve()
+        .then(() => job.run())
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          this.running.delete(chatGuid);
+          if (this.jobs.has(chatGuid)) this.ready.push(chatGuid);
+          this.pump();
+        });
+    }
+  }
+}
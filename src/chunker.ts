@@ -0,0 +1,192 @@
+/**
+ * Splits outgoing text into message-sized chunks along the most natural
+ * boundary available: paragraph, then list item, then sentence, then word.
+ * Fenced code blocks are never cut mid-block (an oversized block is split by
+ * lines and re-fenced), and hard splits never break a character or emoji.
+ */
+
+export interface ChunkOptions {
+  maxLength: number;
+  // Append "(1/3)"-style markers when a message needs more than one chunk
+  partMarkers?: boolean;
+}
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const LIST_ITEM_RE = /^\s*(?:[-*+•]|\d+[.)]|☐|☑)\s/;
+const SENTENCE_BREAK_RE = /(?<=[.!?…]["')\]]*)\s+/;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+interface Block {
+  text: string;
+  fence?: string;
+}
+
+// Split text into paragraphs, keeping each fenced code block as one block
+function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current.length && current.join("\n").trim()) {
+      blocks.push({ text: current.join("\n") });
+    }
+    current = [];
+  };
+
+  for (const line of text.split("\n")) {
+    const fenceMatch = FENCE_RE.exec(line);
+    if (fence) {
+      current.push(line);
+      if (fenceMatch && fenceMatch[1] === fence) {
+        blocks.push({ text: current.join("\n"), fence });
+        current = [];
+        fence = null;
+      }
+    } else if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      current.push(line);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      current.push(line);
+    }
+  }
+  // An unterminated fence still counts as code
+  if (fence && current.length) {
+    blocks.push({ text: current.join("\n"), fence });
+  } else {
+    flush();
+  }
+  return blocks;
+}
+
+// Greedily join pieces with `sep`, splitting any oversized piece with `split`
+function pack(
+  pieces: string[],
+  sep: string,
+  maxLength: number,
+  split: (piece: string) => string[],
+): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (piece.length > maxLength) {
+      if (current) chunks.push(current);
+      current = "";
+      chunks.push(...split(piece));
+      continue;
+    }
+    if (current && current.length + sep.length + piece.length <= maxLength) {
+      current += sep + piece;
+    } else {
+      if (current) chunks.push(current);
+      current = piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// Last resort: split on grapheme boundaries so emoji and surrogate pairs stay whole
+function splitGraphemes(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const { segment } of segmenter.segment(text)) {
+    if (current && current.length + segment.length > maxLength) {
+      chunks.push(current);
+      current = "";
+    }
+    current += segment;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function splitWords(text: string, maxLength: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  return pack(words, " ", maxLength, (word) => splitGraphemes(word, maxLength));
+}
+
+function splitSentences(text: string, maxLength: number): string[] {
+  const sentences = text.split(SENTENCE_BREAK_RE).filter(Boolean);
+  return pack(sentences, " ", maxLength, (sentence) => splitWords(sentence, maxLength));
+}
+
+// Split a paragraph into list items (an item keeps its continuation lines)
+function splitListItems(text: string): string[] {
+  const items: string[] = [];
+  for (const line of text.split("\n")) {
+    if (!items.length || LIST_ITEM_RE.test(line)) {
+      items.push(line);
+    } else {
+      items[items.length - 1] += `\n${line}`;
+    }
+  }
+  return items;
+}
+
+function splitParagraph(text: string, maxLength: number): string[] {
+  const items = splitListItems(text);
+  if (items.length > 1) {
+    return pack(items, "\n", maxLength, (item) => splitSentences(item, maxLength));
+  }
+  return splitSentences(text, maxLength);
+}
+
+// Split an oversized code block by lines, re-fencing every part
+function splitCodeBlock(block: Block, maxLength: number): string[] {
+  const lines = block.text.split("\n");
+  const open = lines[0];
+  const closed = lines.length > 1 && FENCE_RE.test(lines[lines.length - 1]);
+  const close = closed ? lines[lines.length - 1] : block.fence || "```";
+  const body = lines.slice(1, closed ? -1 : undefined);
+  const room = maxLength - open.length - close.length - 2;
+  if (room <= 0) return splitGraphemes(block.text, maxLength);
+
+  const parts = pack(body, "\n", room, (line) => splitGraphemes(line, room));
+  return parts.map((part) => `${open}\n${part}\n${close}`);
+}
+
+function chunkBlocks(text: string, maxLength: number): string[] {
+  const blocks = splitBlocks(text);
+  const pieces = blocks.map((block) => block.text);
+  const byText = new Map(blocks.map((block) => [block.text, block]));
+  return pack(pieces, "\n\n", maxLength, (piece) => {
+    const block = byText.get(piece);
+    return block?.fence ? splitCodeBlock(block, maxLength) : splitParagraph(piece, maxLength);
+  });
+}
+
+function marker(index: number, total: number): string {
+  return `(${index}/${total})`;
+}
+
+function addMarker(chunk: string, index: number, total: number): string {
+  // A marker on the closing fence line would break the fence
+  const sep = FENCE_RE.test(chunk.slice(chunk.lastIndexOf("\n") + 1)) ? "\n" : " ";
+  return `${chunk}${sep}${marker(index, total)}`;
+}
+
+// Split text into chunks no longer than `maxLength`
+export function chunkText(text: string, opts: ChunkOptions): string[] {
+  const maxLength = Math.max(opts.maxLength, 1);
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.length <= maxLength) return [trimmed];
+
+  let chunks = chunkBlocks(trimmed, maxLength);
+  if (!opts.partMarkers || chunks.length < 2) return chunks;
+
+  // Reserve room for the marker; re-chunk until the total stops changing
+  let total = chunks.length;
+  for (;;) {
+    const reserve = marker(total, total).length + 1;
+    chunks = chunkBlocks(trimmed, Math.max(maxLength - reserve, 1));
+    if (chunks.length <= total) break;
+    total = chunks.length;
+  }
+  return chunks.map((chunk, i) => addMarker(chunk, i + 1, chunks.length));
+}
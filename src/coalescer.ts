@@ -0,0 +1,91 @@
+/**
+ * Debounces bursts of messages from the same sender in a chat into a single
+ * batch. The window restarts with each message and is held open while the
+ * sender's typing indicator is showing, up to a maximum wait.
+ */
+
+export interface CoalescerOptions {
+  windowMs: number;
+  maxWaitMs: number;
+}
+
+interface Batch<T> {
+  sender: string;
+  items: T[];
+  firstAt: number;
+  typing: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class Coalescer<T> {
+  private windowMs: number;
+  private maxWaitMs: number;
+  private onFlush: (key: string, items: T[]) => void | Promise<void>;
+  private batches = new Map<string, Batch<T>>();
+
+  constructor(opts: CoalescerOptions, onFlush: (key: string, items: T[]) => void | Promise<void>) {
+    this.windowMs = opts.windowMs;
+    this.maxWaitMs = Math.max(opts.maxWaitMs, opts.windowMs);
+    this.onFlush = onFlush;
+  }
+
+  add(key: string, sender: string, item: T): void {
+    const existing = this.batches.get(key);
+    // A different sender ends the current burst
+    if (existing && existing.sender !== sender) void this.flush(key);
+
+    const batch = this.batches.get(key) ?? {
+      sender,
+      items: [],
+      firstAt: Date.now(),
+      typing: false,
+      timer: null,
+    };
+    batch.items.push(item);
+    // A new message means the sender has stopped typing (for now)
+    batch.typing = false;
+    this.batches.set(key, batch);
+    this.arm(key, batch);
+  }
+
+  // Sender typing state for a chat: hold the batch open while typing
+  typing(key: string, display: boolean): void {
+    const batch = this.batches.get(key);
+    if (!batch) return;
+    batch.typing = display;
+    this.arm(key, batch);
+  }
+
+  pending(key: string): number {
+    return this.batches.get(key)?.items.length ?? 0;
+  }
+
+  // Resolves once the batch's flush handler has finished
+  async flush(key: string): Promise<void> {
+    const batch = this.batches.get(key);
+    if (!batch) return;
+    if (batch.timer) clearTimeout(batch.timer);
+    this.batches.delete(key);
+    await this.onFlush(key, batch.items);
+  }
+
+  // Flush every pending batch now, e.g. on shutdown
+  async flushAll(): Promise<void> {
+    await Promise.all([...this.batches.keys()].map((key) => this.flush(key)));
+  }
+
+  // Drop all pending batches without flushing them
+  cancelAll(): void {
+    for (const batch of this.batches.values()) {
+      if (batch.timer) clearTimeout(batch.timer);
+    }
+    this.batches.clear();
+  }
+
+  private arm(key: string, batch: Batch<T>): void {
+    if (batch.timer) clearTimeout(batch.timer);
+    const remaining = Math.max(this.maxWaitMs - (Date.now() - batch.firstAt), 0);
+    const delay = batch.typing ? remaining : Math.min(this.windowMs, remaining);
+    batch.timer = setTimeout(() => void this.flush(key), delay);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * In-chat command router. Messages that start with the configured prefix
+ * (e.g. "!status") are parsed into commands and handled by the plugin
+ * instead of being injected into the agent.
+ */
+
+import type { BBMessage } from "./types.js";
+
+export type CommandPermission = "anyone" | "owner";
+
+export interface CommandInvocation {
+  name: string;
+  args: string[];
+  chatGuid: string;
+  senderAddress: string;
+  isGroup: boolean;
+  isOwner: boolean;
+  message: BBMessage;
+  reply: (text: string) => Promise<void>;
+}
+
+export interface ChatCommand {
+  name: string;
+  description: string;
+  usage?: string;
+  aliases?: string[];
+  permission?: CommandPermission;
+  handler: (invocation: CommandInvocation) => Promise<void>;
+}
+
+export interface ParsedCommand {
+  name: string;
+  args: string[];
+}
+
+// Parse "<prefix>name arg1 arg2" into a command name and arguments
+export function parseCommand(
+  text: string | null | undefined,
+  prefix: string,
+): ParsedCommand | null {
+  if (!text || !prefix || !text.startsWith(prefix)) return null;
+  const [name, ...args] = text.slice(prefix.length).trim().split(/\s+/);
+  if (!name || !/^[a-z][\w-]*$/i.test(name)) return null;
+  return { name: name.toLowerCase(), args };
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, ChatCommand>();
+  private aliases = new Map<string, string>();
+
+  register(command: ChatCommand): void {
+    const name = command.name.toLowerCase();
+    if (this.commands.has(name)) {
+      throw new Error(`Command "${name}" is already registered`);
+    }
+    this.commands.set(name, command);
+    for (const alias of command.aliases || []) {
+      this.aliases.set(alias.toLowerCase(), name);
+    }
+  }
+
+  unregister(name: string): boolean {
+    const key = name.toLowerCase();
+    const command = this.commands.get(key);
+    if (!command) return false;
+    this.commands.delete(key);
+    for (const alias of command.aliases || []) {
+      this.aliases.delete(alias.toLowerCase());
+    }
+    return true;
+  }
+
+  get(name: string): ChatCommand | undefined {
+    const key = name.toLowerCase();
+    return this.commands.get(key) ?? this.commands.get(this.aliases.get(key) ?? "");
+  }
+
+  list(): ChatCommand[] {
+    return [...this.commands.values()];
+  }
+
+  // Effective permission for a command, allowing config overrides by name
+  permissionFor(
+    command: ChatCommand,
+    overrides: Record<string, CommandPermission> = {},
+  ): CommandPermission {
+    return overrides[command.name] ?? command.permission ?? "anyone";
+  }
+
+  // Run a parsed command. Returns false if no such command is registered,
+  // so the caller can treat the message as ordinary text.
+  async dispatch(
+    invocation: CommandInvocation,
+    overrides: Record<string, CommandPermission> = {},
+  ): Promise<boolean> {
+    const command = this.get(invocation.name);
+    if (!command) return false;
+    if (this.permissionFor(command, overrides) === "owner" && !invocation.isOwner) {
+      await invocation.reply(`Sorry, only the owner can use "${command.name}".`);
+      return true;
+    }
+    await command.handler(invocation);
+    return true;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Contact names for handles. Loads the BlueBubbles contacts list, keeps it in
+ * memory, refreshes it on a timer, and maps a handle address (phone number
+ * or email) to a display name. Configured overrides win over contacts.
+ */
+
+import type { BlueBubblesClient } from "./bluebubbles-client.js";
+import { normalizeHandle } from "./handles.js";
+import type { BBContact } from "./types.js";
+
+export interface ContactResolverOptions {
+  // How often to reload contacts; 0 loads them once
+  refreshMs?: number;
+  // Handle -> name, for handles missing from (or misnamed in) contacts
+  overrides?: Record<string, string>;
+  // Country for numbers stored without a country code
+  defaultCountry?: string;
+  onError?: (err: unknown) => void;
+}
+
+type ContactsClient = Pick<BlueBubblesClient, "getContacts">;
+
+export function contactName(contact: BBContact): string {
+  const full = [contact.firstName, contact.lastName].filter(Boolean).join(" ").trim();
+  return (contact.displayName || full || contact.nickname || "").trim();
+}
+
+export class ContactResolver {
+  private client: ContactsClient;
+  private refreshMs: number;
+  private onError: (err: unknown) => void;
+  private defaultCountry?: string;
+  private overrides = new Map<string, string>();
+  private names = new Map<string, string>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private refreshing: Promise<number> | null = null;
+  lastLoadedAt: number | null = null;
+
+  constructor(client: ContactsClient, opts: ContactResolverOptions = {}) {
+    this.client = client;
+    this.refreshMs = opts.refreshMs ?? 60 * 60 * 1000;
+    this.onError = opts.onError ?? (() => {});
+    this.defaultCountry = opts.defaultCountry;
+    for (const [address, name] of Object.entries(opts.overrides ?? {})) {
+      if (name.trim()) this.overrides.set(this.key(address), name.trim());
+    }
+  }
+
+  // Load contacts now and then on the refresh interval
+  async start(): Promise<void> {
+    this.stop();
+    await this.refresh();
+    if (this.refreshMs <= 0) return;
+    this.timer = setInterval(() => void this.refresh(), this.refreshMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Reload contacts; on failure the previous names are kept. Resolves with
+  // the number of names known.
+  refresh(): Promise<number> {
+    this.refreshing ??= this.load().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  get size(): number {
+    return this.names.size;
+  }
+
+  // Name for an address, or undefined if it isn't a known contact
+  resolve(address: string | undefined): string | undefined {
+    if (!address) return undefined;
+    const key = this.key(address);
+    return this.overrides.get(key) ?? this.names.get(key);
+  }
+
+  // Name for an address, falling back to the address itself
+  displayName(address: string): string {
+    return this.resolve(address) ?? address;
+  }
+
+  private key(address: string): string {
+    return normalizeHandle(address, this.defaultCountry);
+  }
+
+  private async load(): Promise<number> {
+    try {
+      const contacts = (await this.client.getContacts()).data || [];
+      const names = new Map<string, string>();
+      for (const contact of contacts) {
+        const name = contactName(contact);
+        if (!name) continue;
+        const addresses = [...(contact.phoneNumbers ?? []), ...(contact.emails ?? [])];
+        for (const { address } of addresses) {
+          if (address) names.set(this.key(address), name);
+        }
+      }
+      this.names = names;
+      this.lastLoadedAt = Date.now();
+    } catch (err) {
+      this.onError(err);
+    }
+    return this.names.size;
+  }
+}
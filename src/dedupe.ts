@@ -0,0 +1,87 @@
+/**
+ * Bounded, time-windowed store of seen message GUIDs, used to drop duplicate
+ * `new-message` events (socket replays, pending→sent updates, catch-up).
+ */
+
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+
+export interface DedupeStoreOptions {
+  windowMs?: number;
+  maxEntries?: number;
+  // Persist seen GUIDs here so duplicates around a restart are caught too
+  filePath?: string;
+  onSaveError?: (err: unknown) => void;
+}
+
+export class DedupeStore {
+  private windowMs: number;
+  private maxEntries: number;
+  private filePath: string | null;
+  private onSaveError: (err: unknown) => void;
+  // GUID -> first-seen time, in insertion order
+  private seen = new Map<string, number>();
+  private saving: Promise<void> = Promise.resolve();
+  private saveScheduled = false;
+  suppressed = 0;
+
+  constructor(opts: DedupeStoreOptions = {}) {
+    this.windowMs = opts.windowMs ?? 24 * 60 * 60 * 1000;
+    this.maxEntries = opts.maxEntries ?? 5000;
+    this.filePath = opts.filePath ?? null;
+    this.onSaveError = opts.onSaveError ?? (() => {});
+  }
+
+  async load(now = Date.now()): Promise<void> {
+    if (!this.filePath) return;
+    const data = await readJsonFile<Record<string, number>>(this.filePath, {});
+    this.seen.clear();
+    const entries = Object.entries(data).sort((a, b) => a[1] - b[1]);
+    for (const [guid, seenAt] of entries) {
+      this.seen.set(guid, seenAt);
+    }
+    this.prune(now);
+  }
+
+  // Record a GUID. Returns false (and counts it) if it was already seen
+  // within the window.
+  check(guid: string, now = Date.now()): boolean {
+    this.prune(now);
+    if (this.seen.has(guid)) {
+      this.suppressed++;
+      return false;
+    }
+    this.seen.set(guid, now);
+    this.prune(now);
+    this.scheduleSave();
+    return true;
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  // Wait for any pending write
+  async flush(): Promise<void> {
+    await this.saving;
+  }
+
+  private prune(now: number): void {
+    for (const [guid, seenAt] of this.seen) {
+      if (seenAt > now - this.windowMs && this.seen.size <= this.maxEntries) break;
+      this.seen.delete(guid);
+    }
+  }
+
+  // Coalesce bursts of new GUIDs into a single write
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveScheduled) return;
+    const filePath = this.filePath;
+    this.saveScheduled = true;
+    this.saving = this.saving
+      .then(() => {
+        this.saveScheduled = false;
+        return writeJsonFile(filePath, Object.fromEntries(this.seen));
+      })
+      .catch(this.onSaveError);
+  }
+}
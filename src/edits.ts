@@ -0,0 +1,38 @@
+/**
+ * Edited and unsent (retracted) messages. BlueBubbles reports both as
+ * `updated-message` events with `dateEdited` or `dateRetracted` set.
+ */
+
+import { truncate } from "./tapbacks.js";
+import type { BBMessage } from "./types.js";
+
+export type MessageChange =
+  | { kind: "edited"; editedAt: number }
+  | { kind: "retracted"; retractedAt: number };
+
+// What an update changed; delivery and read updates return null. An unsent
+// message keeps its edit date, so a retraction wins over an edit.
+export function parseMessageChange(
+  message: Pick<BBMessage, "dateEdited" | "dateRetracted">,
+): MessageChange | null {
+  if (message.dateRetracted) return { kind: "retracted", retractedAt: message.dateRetracted };
+  if (message.dateEdited) return { kind: "edited", editedAt: message.dateEdited };
+  return null;
+}
+
+// e.g. `Alice edited "see you at 5" to "see you at 6" (message GUID)`
+export function describeEdit(
+  sender: string,
+  guid: string,
+  newText: string,
+  oldText?: string,
+): string {
+  const from = oldText ? `"${truncate(oldText, 200)}"` : "a message";
+  return `${sender} edited ${from} to "${truncate(newText, 200)}" (message ${guid})`;
+}
+
+// e.g. `Alice unsent "wrong chat, sorry" (message GUID)`
+export function describeRetraction(sender: string, guid: string, oldText?: string): string {
+  const what = oldText ? `"${truncate(oldText, 200)}"` : "a message";
+  return `${sender} unsent ${what} (message ${guid})`;
+}
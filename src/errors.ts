@@ -0,0 +1,135 @@
+/**
+ * Typed errors for BlueBubbles API calls, so callers can tell a dropped
+ * connection from a bad password or a missing Private API and decide
+ * whether retrying makes sense.
+ */
+
+export type BlueBubblesErrorKind =
+  | "network"
+  | "timeout"
+  | "auth"
+  | "private-api-required"
+  | "rate-limited"
+  | "server";
+
+export interface BlueBubblesErrorOptions {
+  status?: number;
+  // `error.type` from the BlueBubbles response body, if any
+  type?: string;
+  cause?: unknown;
+}
+
+export class BlueBubblesError extends Error {
+  readonly kind: BlueBubblesErrorKind;
+  readonly status?: number;
+  readonly type?: string;
+
+  constructor(kind: BlueBubblesErrorKind, message: string, opts: BlueBubblesErrorOptions = {}) {
+    super(message, { cause: opts.cause });
+    this.name = "BlueBubblesError";
+    this.kind = kind;
+    this.status = opts.status;
+    this.type = opts.type;
+  }
+
+  // Whether the same request may succeed if sent again
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class BlueBubblesNetworkError extends BlueBubblesError {
+  constructor(message: string, opts: BlueBubblesErrorOptions = {}) {
+    super("network", message, opts);
+    this.name = "BlueBubblesNetworkError";
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+export class BlueBubblesTimeoutError extends BlueBubblesError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, opts: BlueBubblesErrorOptions = {}) {
+    super("timeout", `BlueBubbles request timed out after ${timeoutMs}ms`, opts);
+    this.name = "BlueBubblesTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+export class BlueBubblesAuthError extends BlueBubblesError {
+  constructor(message: string, opts: BlueBubblesErrorOptions = {}) {
+    super("auth", message, opts);
+    this.name = "BlueBubblesAuthError";
+  }
+}
+
+export class BlueBubblesPrivateApiError extends BlueBubblesError {
+  constructor(message: string, opts: BlueBubblesErrorOptions = {}) {
+    super("private-api-required", message, opts);
+    this.name = "BlueBubblesPrivateApiError";
+  }
+}
+
+export class BlueBubblesRateLimitError extends BlueBubblesError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, opts: BlueBubblesErrorOptions & { retryAfterMs?: number } = {}) {
+    super("rate-limited", message, opts);
+    this.name = "BlueBubblesRateLimitError";
+    this.retryAfterMs = opts.retryAfterMs;
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+export class BlueBubblesServerError extends BlueBubblesError {
+  constructor(message: string, opts: BlueBubblesErrorOptions = {}) {
+    super("server", message, opts);
+    this.name = "BlueBubblesServerError";
+  }
+
+  // 4xx responses are the request's fault and will fail the same way again
+  override get retryable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
+interface ErrorBody {
+  status?: number;
+  message?: string;
+  error?: { type?: string; error?: string };
+}
+
+// Build the typed error for a failed response
+export function errorFromResponse(
+  status: number,
+  body: ErrorBody | null,
+  retryAfter?: string | null,
+): BlueBubblesError {
+  const type = body?.error?.type;
+  const detail = body?.error?.error || body?.message || `HTTP ${status}`;
+  const message = `BlueBubbles request failed (${status}): ${detail}`;
+  const opts = { status, type };
+
+  if (status === 401 || status === 403) return new BlueBubblesAuthError(message, opts);
+  if (status === 429) {
+    const seconds = retryAfter ? Number.parseFloat(retryAfter) : Number.NaN;
+    return new BlueBubblesRateLimitError(message, {
+      ...opts,
+      retryAfterMs: Number.isFinite(seconds) ? seconds * 1000 : undefined,
+    });
+  }
+  if (/private api/i.test(`${type ?? ""} ${detail}`)) {
+    return new BlueBubblesPrivateApiError(message, opts);
+  }
+  return new BlueBubblesServerError(message, opts);
+}
@@ -0,0 +1,75 @@
+/**
+ * Group event parsing and formatting: renames, members joining or leaving,
+ * and group photo changes, which BlueBubbles delivers as non-text messages.
+ */
+
+import type { BBMessage } from "./types.js";
+
+export type GroupEventKind =
+  | "renamed"
+  | "added"
+  | "removed"
+  | "left"
+  | "photo-changed"
+  | "photo-removed";
+
+export interface GroupEvent {
+  kind: GroupEventKind;
+  // New group name for "renamed" (empty when the name was cleared)
+  title?: string;
+}
+
+// iMessage item types: 1 = membership change (action 0 added, 1 removed),
+// 2 = rename, 3 = someone left (action 0) or the photo changed (1) or was
+// removed (2). Other non-text types (FaceTime, shared location) return null.
+export function parseGroupEvent(
+  message: Pick<BBMessage, "itemType" | "groupActionType" | "groupTitle">,
+): GroupEvent | null {
+  const action = message.groupActionType ?? 0;
+  switch (message.itemType) {
+    case 1:
+      if (action === 0) return { kind: "added" };
+      if (action === 1) return { kind: "removed" };
+      return null;
+    case 2:
+      return { kind: "renamed", title: (message.groupTitle ?? "").trim() };
+    case 3:
+      if (action === 0) return { kind: "left" };
+      if (action === 1) return { kind: "photo-changed" };
+      if (action === 2) return { kind: "photo-removed" };
+      return null;
+    default:
+      return null;
+  }
+}
+
+// Human-readable description, e.g. `Alice renamed the group to "Ski Trip"`.
+// `members` names who was added or removed, when known.
+export function describeGroupEvent(
+  actor: string,
+  event: GroupEvent,
+  members: string[] = [],
+): string {
+  const who = members.length > 0 ? joinNames(members) : "someone";
+  switch (event.kind) {
+    case "renamed":
+      return event.title
+        ? `${actor} renamed the group to "${event.title}"`
+        : `${actor} removed the group name`;
+    case "added":
+      return `${actor} added ${who} to the group`;
+    case "removed":
+      return `${actor} removed ${who} from the group`;
+    case "left":
+      return `${actor} left the group`;
+    case "photo-changed":
+      return `${actor} changed the group photo`;
+    case "photo-removed":
+      return `${actor} removed the group photo`;
+  }
+}
+
+function joinNames(names: string[]): string {
+  if (names.length <= 2) return names.join(" and ");
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
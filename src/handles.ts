@@ -0,0 +1,97 @@
+/**
+ * Handle normalization. Phone numbers become E.164 (`+15551234567`) using the
+ * handle's country or a configured default, emails are trimmed and
+ * lower-cased, so the same person matches however their address was typed.
+ */
+
+// Calling codes by ISO country; `trunk` is the national dialling prefix
+// dropped when a local number is written with it
+const COUNTRIES: Record<string, { code: string; trunk?: string }> = {
+  US: { code: "1", trunk: "1" },
+  CA: { code: "1", trunk: "1" },
+  PR: { code: "1", trunk: "1" },
+  GB: { code: "44", trunk: "0" },
+  IE: { code: "353", trunk: "0" },
+  AU: { code: "61", trunk: "0" },
+  NZ: { code: "64", trunk: "0" },
+  DE: { code: "49", trunk: "0" },
+  AT: { code: "43", trunk: "0" },
+  CH: { code: "41", trunk: "0" },
+  FR: { code: "33", trunk: "0" },
+  BE: { code: "32", trunk: "0" },
+  NL: { code: "31", trunk: "0" },
+  IT: { code: "39" },
+  ES: { code: "34" },
+  PT: { code: "351" },
+  SE: { code: "46", trunk: "0" },
+  NO: { code: "47" },
+  DK: { code: "45" },
+  FI: { code: "358", trunk: "0" },
+  PL: { code: "48" },
+  IN: { code: "91", trunk: "0" },
+  JP: { code: "81", trunk: "0" },
+  KR: { code: "82", trunk: "0" },
+  CN: { code: "86", trunk: "0" },
+  HK: { code: "852" },
+  SG: { code: "65" },
+  IL: { code: "972", trunk: "0" },
+  ZA: { code: "27", trunk: "0" },
+  BR: { code: "55", trunk: "0" },
+  MX: { code: "52" },
+};
+
+export const DEFAULT_COUNTRY = "US";
+
+// E.164 allows at most 15 digits; anything under 7 is a short code
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+export function isEmailHandle(address: string): boolean {
+  return address.includes("@");
+}
+
+// Normalize a phone number or email. Anything that doesn't look like either
+// (short codes, business chat IDs) is only trimmed and lower-cased.
+export function normalizeHandle(address: string, country?: string): string {
+  const trimmed = address.trim();
+  if (isEmailHandle(trimmed)) return trimmed.replace(/^mailto:/i, "").toLowerCase();
+  // Only digits, an optional leading + and common separators
+  if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) return trimmed.toLowerCase();
+
+  let digits = trimmed.replace(/\D/g, "");
+  if (digits.length < MIN_PHONE_DIGITS) return digits;
+
+  if (trimmed.startsWith("+")) return digits.length <= MAX_PHONE_DIGITS ? `+${digits}` : digits;
+
+  if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else {
+    const region = COUNTRIES[(country || DEFAULT_COUNTRY).toUpperCase()];
+    if (region?.code === "1" && digits.startsWith("011")) {
+      digits = digits.slice(3);
+    } else {
+      const international = region ? nationalToInternational(digits, region) : null;
+      // Unknown country or an incomplete local number: leave it as digits
+      if (!international) return digits;
+      digits = international;
+    }
+  }
+  return digits.length <= MAX_PHONE_DIGITS ? `+${digits}` : digits;
+}
+
+function nationalToInternational(
+  digits: string,
+  region: { code: string; trunk?: string },
+): string | null {
+  // North American numbers are 10 digits, optionally with a leading 1
+  if (region.code === "1") {
+    if (digits.length === 10) return `1${digits}`;
+    return digits.length === 11 && digits.startsWith("1") ? digits : null;
+  }
+  if (region.trunk && digits.startsWith(region.trunk)) {
+    return region.code + digits.slice(region.trunk.length);
+  }
+  // Already carries the country code, just without the +
+  if (digits.startsWith(region.code) && digits.length > 10) return digits;
+  return region.code + digits;
+}
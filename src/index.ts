@@ -4,17 +4,72 @@
 
 import path from "node:path";
 import winston from "winston";
-import { BlueBubblesClient } from "./bluebubbles-client.js";
+import { inlineImageType, saveAttachment, sessionAttachmentDir, toDataUri } from "./attachments.js";
+import {
+  type BBStateChangeHandler,
+  BlueBubblesClient,
+  type ConnectionState,
+  type ConnectionStatus,
+} from "./bluebubbles-client.js";
+import { CursorStore, runCatchUp } from "./catch-up.js";
+import { ChatQueue } from "./chat-queue.js";
+import { chunkText } from "./chunker.js";
+import { Coalescer } from "./coalescer.js";
+import { type ChatCommand, CommandRegistry, parseCommand } from "./commands.js";
+import { ContactResolver } from "./contacts.js";
+import { DedupeStore } from "./dedupe.js";
+import { describeEdit, describeRetraction, parseMessageChange } from "./edits.js";
+import { BlueBubblesAuthError } from "./errors.js";
+import { describeGroupEvent, parseGroupEvent } from "./group-events.js";
+import { normalizeHandle } from "./handles.js";
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+import { formatMarkdown } from "./markdown.js";
+import { mentionsAgent } from "./mentions.js";
+import { type CachedMessage, MessageCache } from "./message-cache.js";
+import {
+  DEFAULT_OUTBOUND_MIME_TYPES,
+  loadOutboundAttachment,
+  type OutboundLimits,
+  type ResponseSegment,
+  splitAttachments,
+} from "./outbound-attachments.js";
+import { PairingStore } from "./pairing.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { redactFormat } from "./redact.js";
+import { describeReply } from "./replies.js";
+import { StreamBuffer } from "./stream-buffer.js";
+import { describeTapback, parseTapback, stripAssociatedGuid } from "./tapbacks.js";
 import type {
   AgentIdentity,
+  BBChat,
   BBMessage,
   BlueBubblesConfig,
   ChannelInfo,
   ConfigSchema,
   LogMessageOptions,
+  PluginCommand,
+  StreamMessage,
   WOPRPlugin,
   WOPRPluginContext,
 } from "./types.js";
+import { WEBHOOK_EVENTS, type WebhookHandlers, WebhookServer } from "./webhook-server.js";
+
+// An inbound message (or coalesced burst) ready to be injected
+interface InboundTurn {
+  chatGuid: string;
+  sessionKey: string;
+  senderAddress: string;
+  channelInfo: ChannelInfo;
+  text: string;
+  images: string[];
+  replyToGuid: string;
+}
+
+interface RateLimiters {
+  dmSender: RateLimiter;
+  groupSender: RateLimiter;
+  groupChat: RateLimiter;
+}
 
 // Module-level state
 let ctx: WOPRPluginContext | null = null;
@@ -23,16 +78,46 @@ let agentIdentity: AgentIdentity = { name: "WOPR", emoji: "💬" };
 let bbClient: BlueBubblesClient | null = null;
 let isShuttingDown = false;
 let privateApiAvailable = false;
+let pairingStore: PairingStore | null = null;
+const commandRegistry = new CommandRegistry();
+const sessionOverrides = new Map<string, string>();
+const messageCache = new MessageCache();
+// Group names from rename events (empty when cleared), ahead of stale chat payloads
+const groupTitles = new Map<string, string>();
+// Last known member addresses per group, to name who was added or removed
+const groupMembers = new Map<string, string[]>();
+let cursorStore: CursorStore | null = null;
+let dedupeStore: DedupeStore | null = null;
+let contactResolver: ContactResolver | null = null;
+let chatQueue = new ChatQueue();
+let coalescer: Coalescer<InboundTurn> | null = null;
+let rateLimiters: RateLimiters | null = null;
+let catchUpRunning = false;
+let webhookServer: WebhookServer | null = null;
+let registeredWebhookId: number | null = null;
+const connectionListeners = new Set<BBStateChangeHandler>();
+const activeTyping = new Map<string, { timer: ReturnType<typeof setInterval>; refs: number }>();
 let logger: winston.Logger;
 
+// WOPR home directory; outbound files must live under it
+function woprHome(): string {
+  return process.env.WOPR_HOME || path.join(process.env.HOME || "~", ".wopr");
+}
+
 // Initialize winston logger
 function initLogger(): winston.Logger {
-  const WOPR_HOME = process.env.WOPR_HOME || path.join(process.env.HOME || "~", ".wopr");
+  const WOPR_HOME = woprHome();
   return winston.createLogger({
     level: "debug",
     format: winston.format.combine(
       winston.format.timestamp(),
       winston.format.errors({ stack: true }),
+      redactFormat(() => ({
+        secrets: [config.password, process.env.BLUEBUBBLES_PASSWORD, config.webhookSecret].filter(
+          (secret): secret is string => !!secret,
+        ),
+        contacts: config.redactContacts === true,
+      })),
       winston.format.json(),
     ),
     defaultMeta: { service: "wopr-plugin-bluebubbles" },
@@ -79,14 +164,46 @@ const configSchema: ConfigSchema = {
       type: "select",
       label: "DM Policy",
       default: "open",
-      description: "How to handle direct messages: open (anyone), allowlist, or disabled",
+      description:
+        "How to handle direct messages: open (anyone), allowlist, pairing (approve one-time codes), or disabled",
     },
     {
       name: "allowFrom",
       type: "array",
       label: "Allowed Senders",
       placeholder: "+15551234567, user@example.com",
-      description: "Phone numbers or emails allowed to DM (for allowlist policy)",
+      description: "Phone numbers or emails allowed to DM (for allowlist and pairing policies)",
+    },
+    {
+      name: "defaultCountry",
+      type: "text",
+      label: "Default Country",
+      default: "US",
+      placeholder: "US",
+      description:
+        "Country code (ISO, e.g. US, GB) for phone numbers written without a +country prefix",
+    },
+    {
+      name: "ownerHandles",
+      type: "array",
+      label: "Owner Handles",
+      placeholder: "+15551234567, owner@example.com",
+      description:
+        "Phone numbers or emails that can approve pairing requests and use owner-only commands; owners can always DM the agent unless DMs are disabled",
+    },
+    {
+      name: "pairingCodeTtlMinutes",
+      type: "number",
+      label: "Pairing Code Lifetime (minutes)",
+      default: 60,
+      description: "How long a pairing code stays valid before it expires",
+    },
+    {
+      name: "pairingMaxPending",
+      type: "number",
+      label: "Max Pending Pairing Requests",
+      default: 3,
+      description: "New pairing codes are refused while this many requests are pending",
     },
     {
       name: "groupPolicy",
@@ -95,6 +212,14 @@ const configSchema: ConfigSchema = {
       default: "open",
       description: "How to handle group chat messages",
     },
+    {
+      name: "groupActivation",
+      type: "select",
+      label: "Group Activation",
+      default: "always",
+      description:
+        "always: reply to every group message; mention: only when named, given a command, or replied to",
+    },
     {
       name: "groupAllowFrom",
       type: "array",
@@ -109,6 +234,107 @@ const configSchema: ConfigSchema = {
       default: 8,
       description: "Maximum inbound attachment size to process",
     },
+    {
+      name: "authMode",
+      type: "select",
+      label: "Password Transport",
+      default: "query",
+      description:
+        "query: put the password in the URL, as BlueBubbles expects (redacted from logs); header: send it in an Authorization header, for servers or proxies that accept it",
+    },
+    {
+      name: "redactContacts",
+      type: "boolean",
+      label: "Redact Contacts in Logs",
+      default: false,
+      description: "Mask phone numbers and email addresses in plugin log files",
+    },
+    {
+      name: "ingestMode",
+      type: "select",
+      label: "Receive Events Via",
+      default: "socket",
+      description:
+        "socket: Socket.IO connection to the server; webhook: the server POSTs events to a local HTTP listener",
+    },
+    {
+      name: "webhookHost",
+      type: "text",
+      label: "Webhook Listen Host",
+      default: "0.0.0.0",
+      description: "Interface the webhook listener binds to",
+    },
+    {
+      name: "webhookPort",
+      type: "number",
+      label: "Webhook Listen Port",
+      default: 8787,
+      description: "Port the webhook listener binds to",
+    },
+    {
+      name: "webhookPath",
+      type: "text",
+      label: "Webhook Path",
+      default: "/bluebubbles/webhook",
+      description: "Path the webhook listener accepts events on",
+    },
+    {
+      name: "webhookSecret",
+      type: "password",
+      label: "Webhook Secret",
+      description:
+        "Shared secret callers must send (as ?secret=, X-Webhook-Secret or a Bearer token); required in webhook mode",
+    },
+    {
+      name: "webhookUrl",
+      type: "text",
+      label: "Webhook Public URL",
+      placeholder: "http://192.168.1.50:8787/bluebubbles/webhook",
+      description: "URL the BlueBubbles server can reach the listener at (for auto-registration)",
+    },
+    {
+      name: "webhookAutoRegister",
+      type: "boolean",
+      label: "Register Webhook Automatically",
+      default: false,
+      description:
+        "Add the webhook to the server at startup and remove it at shutdown (an existing webhook for the same URL is reused and left in place)",
+    },
+    {
+      name: "healthCheckIntervalMs",
+      type: "number",
+      label: "Health Check Interval (ms)",
+      default: 30000,
+      description: "How often to ping the server to detect a degraded connection (0 disables)",
+    },
+    {
+      name: "reconnectDelayMs",
+      type: "number",
+      label: "Reconnect Delay (ms)",
+      default: 5000,
+      description: "Wait between Socket.IO reconnect attempts",
+    },
+    {
+      name: "sendWaitMs",
+      type: "number",
+      label: "Send Wait While Disconnected (ms)",
+      default: 30000,
+      description: "How long replies wait for a reconnect before being dropped",
+    },
+    {
+      name: "requestTimeoutMs",
+      type: "number",
+      label: "Request Timeout (ms)",
+      default: 15000,
+      description: "Give up on a BlueBubbles API call after this long",
+    },
+    {
+      name: "requestRetries",
+      type: "number",
+      label: "Request Retries",
+      default: 2,
+      description: "Retries for safe-to-repeat API calls after network, timeout or server errors",
+    },
     {
       name: "sendReadReceipts",
       type: "boolean",
@@ -130,6 +356,222 @@ const configSchema: ConfigSchema = {
       default: true,
       description: "Download and process incoming attachments",
     },
+    {
+      name: "markdownMode",
+      type: "select",
+      label: "Reply Formatting",
+      default: "plain",
+      description:
+        "plain: convert Markdown to plain text; minimal: keep lists and quotes as written; raw: send Markdown unchanged",
+    },
+    {
+      name: "textChunkLimit",
+      type: "number",
+      label: "iMessage Chunk Length",
+      default: 4000,
+      description: "Longer iMessage replies are split into several messages",
+    },
+    {
+      name: "smsChunkLimit",
+      type: "number",
+      label: "SMS Chunk Length",
+      default: 1600,
+      description: "Longer SMS replies are split into several messages",
+    },
+    {
+      name: "chunkPartMarkers",
+      type: "boolean",
+      label: "Number Split Messages",
+      default: false,
+      description: 'Append "(1/3)"-style markers when a reply is split',
+    },
+    {
+      name: "sendAttachments",
+      type: "boolean",
+      label: "Send Attachments",
+      default: true,
+      description: "Upload files and images the agent references (inside WOPR_HOME) as attachments",
+    },
+    {
+      name: "outboundMediaMaxMb",
+      type: "number",
+      label: "Outbound Media Max Size (MB)",
+      default: 16,
+      description: "Largest file the agent may send",
+    },
+    {
+      name: "outboundMimeTypes",
+      type: "array",
+      label: "Outbound File Types",
+      placeholder: "image/*",
+      description: "MIME types the agent may send (default: images, video, audio, PDF, text)",
+    },
+    {
+      name: "catchUpOnReconnect",
+      type: "boolean",
+      label: "Catch Up After Reconnect",
+      default: true,
+      description: "Reply to messages that arrived while disconnected or restarting",
+    },
+    {
+      name: "catchUpMaxAgeMinutes",
+      type: "number",
+      label: "Catch-Up Max Age (minutes)",
+      default: 60,
+      description: "Missed messages older than this are not answered",
+    },
+    {
+      name: "dedupeWindowMinutes",
+      type: "number",
+      label: "Duplicate Window (minutes)",
+      default: 1440,
+      description: "Ignore a message GUID seen again within this window",
+    },
+    {
+      name: "dedupePersist",
+      type: "boolean",
+      label: "Persist Seen Messages",
+      default: true,
+      description: "Save seen message GUIDs so duplicates around a restart are ignored too",
+    },
+    {
+      name: "injectTapbacks",
+      type: "boolean",
+      label: "Tell Agent About Tapbacks",
+      default: false,
+      description:
+        "Silently pass reactions (e.g. 👎 on a reply) to the agent, not just the session log",
+    },
+    {
+      name: "quoteReplies",
+      type: "boolean",
+      label: "Quote Replied-To Messages",
+      default: true,
+      description:
+        "When someone replies inline, include a short quote of the original for the agent",
+    },
+    {
+      name: "rerunOnEdit",
+      type: "boolean",
+      label: "Answer Edited Messages Again",
+      default: false,
+      description: "When someone edits a message the agent already answered, reply to the new text",
+    },
+    {
+      name: "injectGroupEvents",
+      type: "boolean",
+      label: "Tell Agent About Group Events",
+      default: false,
+      description:
+        "Silently pass group renames, members joining or leaving and photo changes to the agent",
+    },
+    {
+      name: "rateLimitEnabled",
+      type: "boolean",
+      label: "Rate Limiting",
+      default: true,
+      description: "Limit how often each sender and group can reach the agent (owners are exempt)",
+    },
+    {
+      name: "dmRateLimitPerMinute",
+      type: "number",
+      label: "DM Messages per Minute",
+      default: 10,
+      description: "Messages per minute each sender may send in a DM",
+    },
+    {
+      name: "groupSenderRateLimitPerMinute",
+      type: "number",
+      label: "Group Messages per Sender per Minute",
+      default: 6,
+      description: "Messages per minute each sender may send in a group",
+    },
+    {
+      name: "groupChatRateLimitPerMinute",
+      type: "number",
+      label: "Group Messages per Chat per Minute",
+      default: 20,
+      description: "Messages per minute a whole group may send",
+    },
+    {
+      name: "commandPrefix",
+      type: "text",
+      label: "Command Prefix",
+      default: "!",
+      placeholder: "!",
+      description: "Messages starting with this prefix are handled as commands (e.g. !help)",
+    },
+    {
+      name: "maxConcurrentChats",
+      type: "number",
+      label: "Max Concurrent Chats",
+      default: 4,
+      description: "How many chats are processed in parallel (each chat is always in order)",
+    },
+    {
+      name: "coalesceWindowMs",
+      type: "number",
+      label: "Coalesce Window (ms)",
+      default: 0,
+      description:
+        "Merge rapid messages from the same sender into one turn (0 = off). Held open while they are typing",
+    },
+    {
+      name: "coalesceMaxWaitMs",
+      type: "number",
+      label: "Coalesce Max Wait (ms)",
+      default: 15000,
+      description: "Longest a burst is held before it is answered, even if the sender keeps typing",
+    },
+    {
+      name: "enableTypingIndicator",
+      type: "boolean",
+      label: "Typing Indicator",
+      default: true,
+      description: "Show a typing indicator while the agent is working (requires Private API)",
+    },
+    {
+      name: "typingIndicatorSms",
+      type: "boolean",
+      label: "Typing Indicator in SMS Chats",
+      default: false,
+      description: "Also try the typing indicator in SMS chats (usually unsupported)",
+    },
+    {
+      name: "streamResponses",
+      type: "boolean",
+      label: "Stream Responses",
+      default: false,
+      description: "Send the reply in pieces (paragraphs/sentences) while the agent is generating",
+    },
+    {
+      name: "streamMinIntervalMs",
+      type: "number",
+      label: "Stream Min Interval (ms)",
+      default: 1000,
+      description: "Minimum time between streamed messages",
+    },
+    {
+      name: "streamMaxIntervalMs",
+      type: "number",
+      label: "Stream Max Interval (ms)",
+      default: 8000,
+      description: "Send buffered text after this long even without a sentence boundary",
+    },
+    {
+      name: "resolveContacts",
+      type: "boolean",
+      label: "Resolve Contact Names",
+      default: true,
+      description: "Show senders by their contact name (from the BlueBubbles server's contacts)",
+    },
+    {
+      name: "contactsRefreshMinutes",
+      type: "number",
+      label: "Contacts Refresh (minutes)",
+      default: 60,
+      description: "How often to reload contacts from the server (0 loads them once at startup)",
+    },
   ],
 };
 
@@ -142,146 +584,886 @@ async function refreshIdentity(): Promise<void> {
       agentIdentity = { ...agentIdentity, ...identity };
       logger.info("Identity refreshed:", agentIdentity.name);
     }
-  } catch (e) {
-    logger.warn("Failed to refresh identity:", String(e));
+  } catch (e) {
+    logger.warn("Failed to refresh identity:", String(e));
+  }
+}
+
+// Resolve credentials from config or environment variables
+export function resolveCredentials(): { serverUrl: string; password: string } {
+  const serverUrl = config.serverUrl || process.env.BLUEBUBBLES_URL;
+  const password = config.password || process.env.BLUEBUBBLES_PASSWORD;
+
+  if (!serverUrl) {
+    throw new Error(
+      "BlueBubbles server URL required. Set serverUrl config or BLUEBUBBLES_URL env var.",
+    );
+  }
+  if (!password) {
+    throw new Error(
+      "BlueBubbles password required. Set password config or BLUEBUBBLES_PASSWORD env var.",
+    );
+  }
+
+  return { serverUrl, password };
+}
+
+// Determine if a chat GUID is a group chat
+// Group: "iMessage;+;chatNNN" (separator is "+")
+// DM: "iMessage;-;+15551234567" (separator is "-")
+export function isGroupChat(chatGuid: string): boolean {
+  const parts = chatGuid.split(";");
+  return parts.length >= 2 && parts[1] === "+";
+}
+
+// Check if sender is allowed based on policy config
+export function isAllowed(senderAddress: string, isGroup: boolean): boolean {
+  if (isGroup) {
+    const policy = config.groupPolicy || "open";
+    if (policy === "open") return true;
+    if (policy === "disabled") return false;
+    return handleListed(config.groupAllowFrom || config.allowFrom || [], senderAddress);
+  } else {
+    const policy = config.dmPolicy || "open";
+    if (policy === "open") return true;
+    if (policy === "disabled") return false;
+    // Owners approve everyone else, so they never need approving themselves
+    if (isOwner(senderAddress)) return true;
+    if (handleListed(config.allowFrom || [], senderAddress)) return true;
+    return policy === "pairing" && (pairingStore?.isApproved(handleKey(senderAddress)) ?? false);
+  }
+}
+
+// Check if an address is one of the configured owner handles
+export function isOwner(senderAddress: string): boolean {
+  return handleListed(config.ownerHandles || [], senderAddress, false);
+}
+
+// Canonical form of a handle: E.164 phone number or lower-cased email
+export function handleKey(address: string, country?: string): string {
+  return normalizeHandle(address, country || config.defaultCountry);
+}
+
+function handleListed(list: string[], address: string, allowWildcard = true): boolean {
+  if (allowWildcard && list.includes("*")) return true;
+  const key = handleKey(address);
+  return list.some((entry) => handleKey(entry) === key);
+}
+
+// Normalized sender of an inbound message, using the handle's own country
+function senderOf(message: BBMessage): string | undefined {
+  const handle = message.handle;
+  return handle?.address ? handleKey(handle.address, handle.country) : undefined;
+}
+
+function createPairingStore(pluginDir: string): PairingStore {
+  return new PairingStore(path.join(pluginDir, "pairing.json"), {
+    codeTtlMs: (config.pairingCodeTtlMinutes || 60) * 60 * 1000,
+    maxPending: config.pairingMaxPending || 3,
+  });
+}
+
+// Run a pairing subcommand (list/approve/deny/revoke) and return a reply
+export async function runPairingCommand(store: PairingStore, args: string[]): Promise<string> {
+  const [action, target] = args;
+  switch (action) {
+    case "list": {
+      const pending = store.listPending();
+      const approved = store.listApproved();
+      const lines = [
+        `Pending (${pending.length}):`,
+        ...pending.map(
+          (p) => `  ${p.code}  ${p.address}  expires ${new Date(p.expiresAt).toISOString()}`,
+        ),
+        `Approved (${approved.length}):`,
+        ...approved.map((a) => `  ${a.address}`),
+      ];
+      return lines.join("\n");
+    }
+    case "approve": {
+      if (!target) return "Usage: pairing approve <code>";
+      const address = await store.approve(target);
+      return address ? `Approved ${address}` : `No pending request for code ${target}`;
+    }
+    case "deny": {
+      if (!target) return "Usage: pairing deny <code>";
+      const address = await store.deny(target);
+      return address ? `Denied ${address}` : `No pending request for code ${target}`;
+    }
+    case "revoke": {
+      if (!target) return "Usage: pairing revoke <address>";
+      const revoked = await store.revoke(handleKey(target));
+      return revoked ? `Revoked ${target}` : `${target} is not approved`;
+    }
+    default:
+      return "Usage: pairing <list|approve CODE|deny CODE|revoke ADDRESS>";
+  }
+}
+
+function commandPrefix(): string {
+  return config.commandPrefix || "!";
+}
+
+// Session key for a chat, honouring any "reset" that started a fresh session
+export function sessionKeyFor(chatGuid: string): string {
+  const key = chatKey(chatGuid);
+  return sessionOverrides.get(key) ?? `bluebubbles-${key}`;
+}
+
+// Chat GUID with a DM's handle normalized (`iMessage;-;+15551234567`), so a
+// differently written address still maps to the same session
+function chatKey(chatGuid: string): string {
+  const dm = /^([^;]+);-;(.+)$/.exec(chatGuid);
+  return dm ? `${dm[1]};-;${handleKey(dm[2])}` : chatGuid;
+}
+
+function sessionsFile(): string | null {
+  return ctx ? path.join(ctx.getPluginDir(), "sessions.json") : null;
+}
+
+async function loadSessionOverrides(): Promise<void> {
+  const file = sessionsFile();
+  if (!file) return;
+  const data = await readJsonFile<Record<string, string>>(file, {});
+  sessionOverrides.clear();
+  for (const [chatGuid, sessionKey] of Object.entries(data)) {
+    sessionOverrides.set(chatKey(chatGuid), sessionKey);
+  }
+}
+
+// Start a fresh session for a chat and persist the new key
+export async function resetSession(chatGuid: string): Promise<string> {
+  const key = chatKey(chatGuid);
+  const sessionKey = `bluebubbles-${key}-${Date.now().toString(36)}`;
+  sessionOverrides.set(key, sessionKey);
+  const file = sessionsFile();
+  if (file) {
+    await writeJsonFile(file, Object.fromEntries(sessionOverrides));
+  }
+  return sessionKey;
+}
+
+// Register an in-chat command (e.g. "!mycommand") with the router
+export function registerCommand(command: ChatCommand): void {
+  commandRegistry.register(command);
+}
+
+export function unregisterCommand(name: string): boolean {
+  return commandRegistry.unregister(name);
+}
+
+// Built-in in-chat commands
+const builtinCommands: ChatCommand[] = [
+  {
+    name: "help",
+    description: "List available commands",
+    async handler({ isOwner: owner, reply }) {
+      const prefix = commandPrefix();
+      const lines = commandRegistry
+        .list()
+        .filter(
+          (c) => owner || commandRegistry.permissionFor(c, config.commandPermissions) !== "owner",
+        )
+        .map((c) => `${prefix}${c.usage || c.name} - ${c.description}`);
+      await reply(lines.join("\n"));
+    },
+  },
+  {
+    name: "status",
+    description: "Show connection status",
+    async handler({ chatGuid, reply }) {
+      const queue = chatQueue.stats();
+      const conn = getConnectionStatus();
+      const lines = [
+        `Connection: ${conn.state} for ${formatAge(conn.since)}`,
+        `Reconnect attempts: ${conn.reconnectAttempts}`,
+        `Last event: ${conn.lastEventAt ? `${formatAge(conn.lastEventAt)} ago` : "none"}`,
+        `Private API: ${privateApiAvailable ? "enabled" : "disabled"}`,
+        `Contacts: ${contactResolver?.size ?? 0} names`,
+        `Duplicates suppressed: ${dedupeStore?.suppressed ?? 0}`,
+        `Queue: ${queue.active} active, ${queue.queued} waiting (this chat: ${chatQueue.depth(chatGuid)})`,
+        `Queue wait: last ${queue.lastWaitMs}ms, max ${queue.maxWaitMs}ms`,
+      ];
+      await reply(lines.join("\n"));
+    },
+  },
+  {
+    name: "reset",
+    description: "Start a fresh conversation in this chat",
+    async handler({ chatGuid, reply }) {
+      const sessionKey = await resetSession(chatGuid);
+      logger.info(`Session for ${chatGuid} reset to ${sessionKey}`);
+      await reply("Started a fresh conversation.");
+    },
+  },
+  {
+    name: "whoami",
+    description: "Show your address and this chat's session",
+    async handler({ chatGuid, senderAddress, isOwner: owner, reply }) {
+      const lines = [
+        `Address: ${senderAddress}`,
+        `Name: ${contactResolver?.resolve(senderAddress) ?? "unknown"}`,
+        `Chat: ${chatGuid}`,
+        `Session: ${sessionKeyFor(chatGuid)}`,
+        `Owner: ${owner ? "yes" : "no"}`,
+      ];
+      await reply(lines.join("\n"));
+    },
+  },
+  {
+    name: "pair",
+    description: "Manage pairing requests",
+    usage: "pair <list|approve CODE|deny CODE|revoke ADDRESS>",
+    permission: "owner",
+    async handler({ args, reply }) {
+      if (!pairingStore) {
+        await reply("Pairing is not available.");
+        return;
+      }
+      await reply(await runPairingCommand(pairingStore, args));
+    },
+  },
+];
+for (const command of builtinCommands) {
+  commandRegistry.register(command);
+}
+
+function createRateLimiters(): RateLimiters | null {
+  if (config.rateLimitEnabled === false) return null;
+  return {
+    dmSender: new RateLimiter({ perMinute: config.dmRateLimitPerMinute || 10 }),
+    groupSender: new RateLimiter({ perMinute: config.groupSenderRateLimitPerMinute || 6 }),
+    groupChat: new RateLimiter({ perMinute: config.groupChatRateLimitPerMinute || 20 }),
+  };
+}
+
+// Apply per-sender and per-chat limits (owners are exempt). In a DM the chat
+// and the sender are the same, so only the sender limit applies. Sends one
+// throttle notice per window and returns false when over a limit.
+async function checkRateLimit(
+  chatGuid: string,
+  senderAddress: string,
+  isGroup: boolean,
+): Promise<boolean> {
+  if (!rateLimiters || isOwner(senderAddress)) return true;
+  const senderKey = handleKey(senderAddress);
+  let limiter: RateLimiter;
+  let key: string;
+  if (isGroup) {
+    if (!rateLimiters.groupSender.consume(senderKey)) {
+      limiter = rateLimiters.groupSender;
+      key = senderKey;
+    } else if (!rateLimiters.groupChat.consume(chatGuid)) {
+      limiter = rateLimiters.groupChat;
+      key = chatGuid;
+    } else {
+      return true;
+    }
+  } else if (!rateLimiters.dmSender.consume(senderKey)) {
+    limiter = rateLimiters.dmSender;
+    key = senderKey;
+  } else {
+    return true;
+  }
+
+  logger.info(`Rate limit hit for ${key} in ${chatGuid}`);
+  if (limiter.shouldNotify(key)) {
+    await sendResponse(
+      chatGuid,
+      "You're sending messages faster than I can keep up with. Give me a minute and try again.",
+    );
+  }
+  return false;
+}
+
+// Whether a group message should get a reply under the group activation mode:
+// always, or only when it mentions the agent, is a command, or replies to us
+export async function isGroupTrigger(message: BBMessage): Promise<boolean> {
+  if ((config.groupActivation || "always") === "always") return true;
+  const text = message.text || "";
+  if (mentionsAgent(text, agentIdentity)) return true;
+  if (text.startsWith(commandPrefix())) return true;
+  // Only inline replies count: replyToGuid is set on ordinary messages too,
+  // pointing at whatever came before
+  if (!message.threadOriginatorGuid) return false;
+  const original = await lookupMessage(stripAssociatedGuid(message.threadOriginatorGuid));
+  return !!original?.isFromMe;
+}
+
+// Log a group message that doesn't trigger a reply, so the agent has the
+// context when it is addressed later
+function recordUntriggeredMessage(
+  message: BBMessage,
+  chatGuid: string,
+  senderAddress: string,
+): void {
+  if (!ctx) return;
+  let text = message.text === "\ufffc" ? "" : message.text || "";
+  for (const attachment of message.attachments || []) {
+    text += `${text ? " " : ""}[attachment: ${attachment.transferName}]`;
+  }
+  if (!text.trim()) return;
+  ctx.logMessage(sessionKeyFor(chatGuid), text, {
+    from: senderName(senderAddress),
+    channel: buildChannelInfo(chatGuid, senderAddress, message.chats[0]),
+  });
+  messageCache.set({
+    guid: message.guid,
+    chatGuid,
+    text,
+    sender: senderAddress,
+    isFromMe: false,
+    dateCreated: message.dateCreated,
+  });
+}
+
+// Issue (or re-use) a pairing code for an unknown DM sender
+async function handlePairingRequest(chatGuid: string, senderAddress: string): Promise<void> {
+  if (!pairingStore) return;
+  const result = await pairingStore.requestCode(senderAddress);
+  if (result.status === "rate-limited") {
+    logger.warn(`Pairing request from ${senderAddress} refused: too many pending requests`);
+    return;
+  }
+  // Only reply once per code so repeated messages don't spam the sender
+  if (result.status === "pending") return;
+
+  const { code } = result.request;
+  logger.info(`Pairing request from ${senderAddress}: code ${code}`);
+  ctx?.log.info(
+    `BlueBubbles pairing request from ${senderAddress}. Approve with: wopr bluebubbles pairing approve ${code}`,
+  );
+  await sendResponse(
+    chatGuid,
+    `Hi! I don't know you yet. Ask my owner to approve pairing code ${code} to start chatting.`,
+  );
+}
+
+// Determine if a chat GUID is an SMS (not iMessage) chat
+export function isSmsChat(chatGuid: string): boolean {
+  return chatGuid.toUpperCase().startsWith("SMS;");
+}
+
+const TYPING_REFRESH_MS = 10_000;
+
+function typingEnabledFor(chatGuid: string): boolean {
+  if (!privateApiAvailable || config.enableTypingIndicator === false) return false;
+  return !isSmsChat(chatGuid) || config.typingIndicatorSms === true;
+}
+
+// Show our typing indicator in a chat, refreshing it until stopped. The
+// indicator is cosmetic, so nothing waits for the server to acknowledge it.
+export function startTypingIndicator(chatGuid: string): void {
+  if (!bbClient || !typingEnabledFor(chatGuid)) return;
+  const active = activeTyping.get(chatGuid);
+  if (active) {
+    active.refs++;
+    return;
+  }
+  const client = bbClient;
+  const refresh = () => {
+    client.startTyping(chatGuid).catch((err) => {
+      logger.warn(`Failed to update typing indicator for ${chatGuid}:`, err);
+    });
+  };
+  activeTyping.set(chatGuid, { timer: setInterval(refresh, TYPING_REFRESH_MS), refs: 1 });
+  refresh();
+}
+
+// Release one hold on the typing indicator, clearing it when none remain.
+// Never rejects; turns don't wait for it, shutdown does.
+export async function stopTypingIndicator(chatGuid: string): Promise<void> {
+  const active = activeTyping.get(chatGuid);
+  if (!active) return;
+  if (--active.refs > 0) return;
+  clearInterval(active.timer);
+  activeTyping.delete(chatGuid);
+  try {
+    await bbClient?.stopTyping(chatGuid);
+  } catch (err) {
+    logger.warn(`Failed to stop typing indicator for ${chatGuid}:`, err);
+  }
+}
+
+// Clear every typing indicator (used on shutdown)
+async function stopAllTypingIndicators(): Promise<void> {
+  const chats = [...activeTyping.keys()];
+  for (const chatGuid of chats) {
+    const active = activeTyping.get(chatGuid);
+    if (active) active.refs = 1;
+    await stopTypingIndicator(chatGuid);
+  }
+}
+
+// Current connection state, for the status command and other plugins
+export function getConnectionStatus(): ConnectionStatus {
+  return (
+    bbClient?.getStatus() ?? {
+      state: "stopped",
+      since: Date.now(),
+      reconnectAttempts: 0,
+      lastEventAt: null,
+      lastPingAt: null,
+      lastError: null,
+    }
+  );
+}
+
+// Subscribe to connection state changes; returns an unsubscribe function
+export function onConnectionStateChange(listener: BBStateChangeHandler): () => void {
+  connectionListeners.add(listener);
+  return () => connectionListeners.delete(listener);
+}
+
+function handleStateChange(status: ConnectionStatus, previous: ConnectionState): void {
+  const line = `BlueBubbles connection ${previous} -> ${status.state}`;
+  const detail = status.lastError ? ` (${status.lastError})` : "";
+  if (status.state === "connected" || status.state === "stopped") logger.info(line);
+  else logger.warn(line + detail);
+  for (const listener of connectionListeners) {
+    try {
+      listener(status, previous);
+    } catch (err) {
+      logger.warn("Connection state listener failed:", err);
+    }
+  }
+}
+
+// Hold outbound sends while (re)connecting. Resolves false if the connection
+// doesn't come back within sendWaitMs, or the plugin is stopped.
+function waitForConnection(): Promise<boolean> {
+  const usable = (state: ConnectionState) => state === "connected" || state === "degraded";
+  const { state } = getConnectionStatus();
+  if (usable(state)) return Promise.resolve(true);
+  if (state === "stopped") return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      resolve(false);
+    }, config.sendWaitMs ?? 30_000);
+    const unsubscribe = onConnectionStateChange((status) => {
+      if (!usable(status.state) && status.state !== "stopped") return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(usable(status.state));
+    });
+  });
+}
+
+function formatAge(since: number): string {
+  const seconds = Math.max(Math.round((Date.now() - since) / 1000), 0);
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 7200) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 3600)}h`;
+}
+
+// Maximum characters per message, which is lower for SMS chats
+export function chunkLimitFor(chatGuid: string): number {
+  if (isSmsChat(chatGuid)) return config.smsChunkLimit || 1600;
+  return config.textChunkLimit || 4000;
+}
+
+// Send text to a chat, splitting long messages
+async function sendTextChunks(chatGuid: string, text: string, replyToGuid?: string): Promise<void> {
+  if (!bbClient) return;
+
+  const chunks = chunkText(text, {
+    maxLength: chunkLimitFor(chatGuid),
+    partMarkers: config.chunkPartMarkers === true,
+  });
+
+  for (let i = 0; i < chunks.length; i++) {
+    try {
+      const res = await bbClient.sendText(chatGuid, chunks[i], {
+        replyToGuid: i === 0 ? replyToGuid : undefined,
+      });
+      if (res?.data?.guid) {
+        messageCache.set({
+          guid: res.data.guid,
+          chatGuid,
+          text: chunks[i],
+          sender: agentIdentity.name || "me",
+          isFromMe: true,
+          dateCreated: res.data.dateCreated || Date.now(),
+        });
+      }
+    } catch (err) {
+      logger.error("Failed to send BlueBubbles message chunk:", err);
+      // Sending later chunks after a lost one would garble the reply
+      if (i < chunks.length - 1) {
+        logger.warn(`Dropped ${chunks.length - i - 1} remaining chunk(s) for ${chatGuid}`);
+      }
+      return;
+    }
   }
 }
 
-// Resolve credentials from config or environment variables
-export function resolveCredentials(): { serverUrl: string; password: string } {
-  const serverUrl = config.serverUrl || process.env.BLUEBUBBLES_URL;
-  const password = config.password || process.env.BLUEBUBBLES_PASSWORD;
-
-  if (!serverUrl) {
-    throw new Error(
-      "BlueBubbles server URL required. Set serverUrl config or BLUEBUBBLES_URL env var.",
-    );
-  }
-  if (!password) {
-    throw new Error(
-      "BlueBubbles password required. Set password config or BLUEBUBBLES_PASSWORD env var.",
-    );
+// Upload one attachment referenced in a response. On failure, tell the chat
+// instead of silently dropping it.
+async function sendOutboundAttachment(chatGuid: string, source: string, name?: string) {
+  if (!bbClient) return;
+  const label = name || (source.startsWith("data:") ? "image" : path.basename(source));
+  try {
+    const attachment = await loadOutboundAttachment(source, outboundLimits(), name);
+    const res = await bbClient.sendAttachment(chatGuid, attachment.data, attachment.filename);
+    if (res.status !== 200) throw new Error(res.error?.error || res.message || "upload failed");
+    if (res.data?.guid) {
+      messageCache.set({
+        guid: res.data.guid,
+        chatGuid,
+        text: `[attachment: ${attachment.filename}]`,
+        sender: agentIdentity.name || "me",
+        isFromMe: true,
+        dateCreated: res.data.dateCreated || Date.now(),
+      });
+    }
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    logger.warn(`Failed to send attachment "${label}" to ${chatGuid}: ${reason}`);
+    await sendTextChunks(chatGuid, `(Couldn't send attachment "${label}": ${reason})`);
   }
-
-  return { serverUrl, password };
 }
 
-// Determine if a chat GUID is a group chat
-// Group: "iMessage;+;chatNNN" (separator is "+")
-// DM: "iMessage;-;+15551234567" (separator is "-")
-export function isGroupChat(chatGuid: string): boolean {
-  const parts = chatGuid.split(";");
-  return parts.length >= 2 && parts[1] === "+";
+function outboundLimits(): OutboundLimits {
+  return {
+    maxBytes: (config.outboundMediaMaxMb || 16) * 1024 * 1024,
+    allowedMimeTypes: config.outboundMimeTypes?.length
+      ? config.outboundMimeTypes
+      : DEFAULT_OUTBOUND_MIME_TYPES,
+    roots: [woprHome()],
+    excluded: outboundExcludedDirs(),
+  };
 }
 
-// Check if sender is allowed based on policy config
-export function isAllowed(senderAddress: string, isGroup: boolean): boolean {
-  if (isGroup) {
-    const policy = config.groupPolicy || "open";
-    if (policy === "open") return true;
-    if (policy === "disabled") return false;
-    const allowed = config.groupAllowFrom || config.allowFrom || [];
-    return (
-      allowed.includes("*") || allowed.some((a) => a.toLowerCase() === senderAddress.toLowerCase())
-    );
-  } else {
-    const policy = config.dmPolicy || "open";
-    if (policy === "open") return true;
-    if (policy === "disabled") return false;
-    const allowed = config.allowFrom || [];
-    return (
-      allowed.includes("*") || allowed.some((a) => a.toLowerCase() === senderAddress.toLowerCase())
-    );
-  }
+// Plugin state (pairing approvals, files other chats sent) and logs live
+// under the WOPR home but must never be uploaded
+function outboundExcludedDirs(): string[] {
+  const dirs = [path.join(woprHome(), "logs")];
+  if (ctx) dirs.push(ctx.getPluginDir());
+  return dirs;
 }
 
-// Send a response back to a chat, splitting long messages
+// Send a response back to a chat. Files and images the agent references are
+// uploaded as attachments in place, with the surrounding text sent around them.
 export async function sendResponse(
   chatGuid: string,
   text: string,
   replyToGuid?: string,
 ): Promise<void> {
   if (!bbClient) return;
+  if (!(await waitForConnection())) {
+    logger.warn(`Dropping reply to ${chatGuid}: BlueBubbles is ${getConnectionStatus().state}`);
+    return;
+  }
+
+  const segments: ResponseSegment[] =
+    config.sendAttachments === false
+      ? [{ type: "text", text }]
+      : await splitAttachments(text, outboundLimits());
+  let threaded = false;
+  for (const segment of segments) {
+    if (segment.type === "text") {
+      const formatted = formatMarkdown(segment.text, config.markdownMode || "plain");
+      if (!formatted) continue;
+      await sendTextChunks(chatGuid, formatted, threaded ? undefined : replyToGuid);
+      threaded = true;
+    } else {
+      await sendOutboundAttachment(chatGuid, segment.source, segment.name);
+    }
+  }
+}
 
-  const maxLength = 4000;
-  const chunks: string[] = [];
+// Contact name for an address, or the address itself
+function senderName(address: string): string {
+  return contactResolver?.displayName(address) ?? address;
+}
 
-  if (text.length <= maxLength) {
-    chunks.push(text);
-  } else {
-    let current = "";
-    const sentences = text.split(/(?<=[.!?])\s+/);
-    for (const sentence of sentences) {
-      if (current.length + sentence.length + 1 <= maxLength) {
-        current += (current ? " " : "") + sentence;
-      } else {
-        if (current) chunks.push(current);
-        // If a single sentence is too long, split by character
-        if (sentence.length > maxLength) {
-          let remaining = sentence;
-          while (remaining.length > maxLength) {
-            chunks.push(remaining.slice(0, maxLength));
-            remaining = remaining.slice(maxLength);
-          }
-          current = remaining;
-        } else {
-          current = sentence;
-        }
-      }
+// Unnamed groups are called after their members, as Messages does
+function groupName(chat?: BBChat): string {
+  const title = chat ? groupTitles.get(chat.guid) : undefined;
+  if (title !== undefined) {
+    if (title) return title;
+  } else if (chat?.displayName) {
+    return chat.displayName;
+  }
+  const members = (chat?.participants ?? []).map((p) => senderName(p.address));
+  return members.length > 0 ? members.join(", ") : "Group Chat";
+}
+
+// Build the WOPR channel info for a chat
+function buildChannelInfo(chatGuid: string, senderAddress: string, chat?: BBChat): ChannelInfo {
+  const isGroup = isGroupChat(chatGuid);
+  return {
+    type: "bluebubbles",
+    id: isGroup ? `group:${chatGuid}` : `dm:${senderAddress}`,
+    name: isGroup ? groupName(chat) : (contactResolver?.resolve(senderAddress) ?? "BlueBubbles DM"),
+  };
+}
+
+// Remember a group's members; returns who joined and who left since last time
+function trackGroupMembers(chat: BBChat): { added: string[]; removed: string[] } {
+  const current = (chat.participants ?? []).map((p) => handleKey(p.address));
+  if (current.length === 0) return { added: [], removed: [] };
+  const previous = groupMembers.get(chat.guid);
+  groupMembers.set(chat.guid, current);
+  if (!previous) return { added: [], removed: [] };
+  return {
+    added: current.filter((a) => !previous.includes(a)),
+    removed: previous.filter((a) => !current.includes(a)),
+  };
+}
+
+// Record a group rename, membership change or photo change in the chat's
+// session, optionally telling the agent silently
+export async function handleGroupEvent(message: BBMessage): Promise<void> {
+  if (isShuttingDown || !ctx) return;
+  const event = parseGroupEvent(message);
+  const chat = message.chats?.[0];
+  const senderAddress = senderOf(message);
+  if (!event || !chat || !senderAddress || !isGroupChat(chat.guid)) {
+    logger.debug(`Ignoring message ${message.guid} of type ${message.itemType}`);
+    return;
+  }
+  if (!isAllowed(senderAddress, true)) return;
+
+  const changes = trackGroupMembers(chat);
+  if (event.kind === "renamed") groupTitles.set(chat.guid, event.title ?? "");
+  const members =
+    event.kind === "added" ? changes.added : event.kind === "removed" ? changes.removed : [];
+  const text = `[group] ${describeGroupEvent(senderName(senderAddress), event, members.map(senderName))}`;
+  const sessionKey = sessionKeyFor(chat.guid);
+  const channelInfo = buildChannelInfo(chat.guid, senderAddress, chat);
+  logger.info(`${text} (${chat.guid})`);
+  ctx.logMessage(sessionKey, text, { from: senderName(senderAddress), channel: channelInfo });
+
+  if (config.injectGroupEvents) {
+    try {
+      await ctx.inject(sessionKey, text, {
+        silent: true,
+        from: senderAddress,
+        channel: channelInfo,
+      });
+    } catch (err) {
+      logger.error("Failed to inject group event:", err);
     }
-    if (current) chunks.push(current);
   }
+}
 
-  for (let i = 0; i < chunks.length; i++) {
+// Record a tapback in the chat's session, optionally telling the agent silently
+export async function handleTapback(message: BBMessage): Promise<void> {
+  if (isShuttingDown || !ctx || !message.associatedMessageGuid) return;
+  if (message.isFromMe || messageCache.has(message.guid)) return;
+
+  const tapback = parseTapback(message.associatedMessageType);
+  const senderAddress = senderOf(message);
+  const chatGuid = message.chats?.[0]?.guid;
+  if (!tapback || !senderAddress || !chatGuid) {
+    logger.info(
+      `Ignoring reaction ${message.associatedMessageType} from ${senderAddress} on message ${message.associatedMessageGuid}`,
+    );
+    return;
+  }
+
+  const isGroup = isGroupChat(chatGuid);
+  if (!isAllowed(senderAddress, isGroup)) return;
+
+  // Remember the tapback so the same event via another socket event isn't recorded twice
+  messageCache.set({
+    guid: message.guid,
+    chatGuid,
+    text: "",
+    sender: senderAddress,
+    isFromMe: false,
+    dateCreated: message.dateCreated,
+  });
+
+  const target = messageCache.get(stripAssociatedGuid(message.associatedMessageGuid));
+  const event = `[tapback] ${describeTapback(senderName(senderAddress), tapback, target?.text)}${target?.isFromMe ? " (your message)" : ""}`;
+  const sessionKey = sessionKeyFor(chatGuid);
+  const channelInfo = buildChannelInfo(chatGuid, senderAddress, message.chats[0]);
+  logger.info(event);
+  ctx.logMessage(sessionKey, event, { from: senderName(senderAddress), channel: channelInfo });
+
+  if (config.injectTapbacks) {
     try {
-      await bbClient.sendText(chatGuid, chunks[i], {
-        replyToGuid: i === 0 ? replyToGuid : undefined,
+      await ctx.inject(sessionKey, event, {
+        silent: true,
+        from: senderAddress,
+        channel: channelInfo,
       });
     } catch (err) {
-      logger.error("Failed to send BlueBubbles message chunk:", err);
+      logger.error("Failed to inject tapback:", err);
     }
   }
 }
 
-// Handle an updated message (tapbacks/reactions from other party)
+// Handle an updated message: tapbacks from the other party, edits and unsends
 export async function handleUpdatedMessage(message: BBMessage): Promise<void> {
-  if (!message.associatedMessageGuid) return;
-  logger.info(
-    `Received reaction ${message.associatedMessageType} from ${message.handle?.address} on message ${message.associatedMessageGuid}`,
-  );
+  if (message.associatedMessageGuid) {
+    await handleTapback(message);
+    return;
+  }
+  await handleMessageChange(message);
+}
+
+// Record an edited or unsent message in the chat's session. An edit of a
+// message the agent already answered can optionally be answered again.
+export async function handleMessageChange(message: BBMessage): Promise<void> {
+  if (isShuttingDown || !ctx || message.isFromMe) return;
+  const change = parseMessageChange(message);
+  const chat = message.chats?.[0];
+  const senderAddress = senderOf(message);
+  if (!change || !chat || !senderAddress) return;
+  const isGroup = isGroupChat(chat.guid);
+  if (!isAllowed(senderAddress, isGroup)) return;
+
+  // The same change is reported again with each later delivery or read update
+  const cached = messageCache.get(message.guid);
+  if (change.kind === "retracted" ? cached?.retracted : cached?.editedAt === change.editedAt) {
+    return;
+  }
+
+  const name = senderName(senderAddress);
+  const newText = message.text === "\ufffc" ? "" : message.text || "";
+  const event =
+    change.kind === "retracted"
+      ? `[unsend] ${describeRetraction(name, message.guid, cached?.text)}`
+      : `[edit] ${describeEdit(name, message.guid, newText, cached?.text)}`;
+  messageCache.set({
+    guid: message.guid,
+    chatGuid: chat.guid,
+    text: change.kind === "retracted" ? (cached?.text ?? "") : newText,
+    sender: senderAddress,
+    isFromMe: false,
+    dateCreated: message.dateCreated,
+    editedAt: change.kind === "edited" ? change.editedAt : cached?.editedAt,
+    retracted: change.kind === "retracted",
+    answered: cached?.answered,
+  });
+
+  const sessionKey = sessionKeyFor(chat.guid);
+  const channelInfo = buildChannelInfo(chat.guid, senderAddress, chat);
+  logger.info(event);
+  ctx.logMessage(sessionKey, event, { from: name, channel: channelInfo });
+
+  if (change.kind !== "edited" || !cached?.answered || !config.rerunOnEdit || !newText.trim()) {
+    return;
+  }
+  if (!(await checkRateLimit(chat.guid, senderAddress, isGroup))) return;
+  // Already running in this chat's queue, so respond directly
+  await respondToTurn({
+    chatGuid: chat.guid,
+    sessionKey,
+    senderAddress,
+    channelInfo,
+    text: `(edited) ${newText}`,
+    images: [],
+    replyToGuid: message.guid,
+  });
 }
 
-// Handle a new inbound message
+// Handle a new inbound message and advance the chat's catch-up cursor
 export async function handleNewMessage(message: BBMessage): Promise<void> {
   if (isShuttingDown || !ctx || !bbClient) return;
+  if (dedupeStore && message.guid && !dedupeStore.check(message.guid)) {
+    logger.info(
+      `Suppressed duplicate message ${message.guid} (${dedupeStore.suppressed} suppressed so far)`,
+    );
+    return;
+  }
+  try {
+    await processNewMessage(message);
+  } finally {
+    const chatGuid = message.chats?.[0]?.guid;
+    if (cursorStore && chatGuid && !isShuttingDown) {
+      await cursorStore.advance(chatGuid, message.dateCreated).catch((err) => {
+        logger.warn(`Failed to save catch-up cursor for ${chatGuid}:`, err);
+      });
+    }
+  }
+}
+
+async function processNewMessage(message: BBMessage): Promise<void> {
+  if (isShuttingDown || !ctx || !bbClient) return;
 
   // Skip our own messages
   if (message.isFromMe) return;
 
-  // Skip non-regular message types (group renames, participant changes)
-  if (message.itemType !== 0) return;
+  // Group renames, membership and photo changes become system events
+  if (message.itemType !== 0) {
+    await handleGroupEvent(message);
+    return;
+  }
 
-  // Skip tapback reactions (they have an associatedMessageGuid)
-  if (message.associatedMessageGuid !== null) return;
+  // Tapback reactions (they have an associatedMessageGuid) are recorded, not answered
+  if (message.associatedMessageGuid) {
+    await handleTapback(message);
+    return;
+  }
 
   // Skip messages with no chats array
   if (!message.chats || message.chats.length === 0) return;
 
   const chatGuid = message.chats[0].guid;
-  const senderAddress = message.handle?.address;
+  const senderAddress = senderOf(message);
 
   if (!senderAddress) return;
 
   const isGroup = isGroupChat(chatGuid);
+  if (isGroup) trackGroupMembers(message.chats[0]);
+
+  // Pick up approvals made from another process before checking policy
+  if (!isGroup && config.dmPolicy === "pairing" && pairingStore) {
+    try {
+      await pairingStore.load();
+    } catch (err) {
+      logger.warn("Failed to reload pairing store:", err);
+    }
+  }
+
+  // Commands are available to owners and to senders allowed by policy
+  const parsed = parseCommand(message.text, commandPrefix());
+  if (parsed && (isOwner(senderAddress) || isAllowed(senderAddress, isGroup))) {
+    const handled = await commandRegistry.dispatch(
+      {
+        ...parsed,
+        chatGuid,
+        senderAddress,
+        isGroup,
+        isOwner: isOwner(senderAddress),
+        message,
+        reply: (reply) => sendResponse(chatGuid, reply, message.guid),
+      },
+      config.commandPermissions,
+    );
+    if (handled) return;
+  }
 
   // Check policy
   if (!isAllowed(senderAddress, isGroup)) {
+    if (!isGroup && config.dmPolicy === "pairing") {
+      await handlePairingRequest(chatGuid, senderAddress);
+      return;
+    }
     logger.info(`Message from ${senderAddress} blocked by policy`);
     return;
   }
 
+  // In mention-only groups, just record messages that don't address us
+  if (isGroup && !(await isGroupTrigger(message))) {
+    recordUntriggeredMessage(message, chatGuid, senderAddress);
+    return;
+  }
+
+  // Throttle noisy senders and chats before doing any real work
+  if (!(await checkRateLimit(chatGuid, senderAddress, isGroup))) return;
+
+  const sessionKey = sessionKeyFor(chatGuid);
+
   // Build text content
   let text = message.text === "\ufffc" ? "" : message.text || "";
+  const images: string[] = [];
 
   // Process attachments
   if (message.attachments && message.attachments.length > 0 && config.enableAttachments !== false) {
@@ -301,7 +1483,8 @@ export async function handleNewMessage(message: BBMessage): Promise<void> {
         continue;
       }
       try {
-        const data = await bbClient.downloadAttachment(attachment.guid);
+        // The reported size can be wrong, so the download enforces the limit too
+        const data = await bbClient.downloadAttachment(attachment.guid, maxBytes);
         if (!data || data.length === 0) {
           logger.error(`Attachment ${attachment.guid} download returned empty data`);
           await sendResponse(
@@ -310,7 +1493,19 @@ export async function handleNewMessage(message: BBMessage): Promise<void> {
           );
           return;
         }
-        text += `${text ? " " : ""}[attachment: ${attachment.transferName}]`;
+        // Images go to the agent inline; other files are saved and referenced by path
+        const mimeType = inlineImageType(data);
+        if (mimeType) {
+          images.push(toDataUri(data, mimeType));
+          text += `${text ? " " : ""}[attachment: ${attachment.transferName}]`;
+        } else {
+          const filePath = await saveAttachment(
+            sessionAttachmentDir(ctx.getPluginDir(), sessionKey),
+            attachment,
+            data,
+          );
+          text += `${text ? " " : ""}[attachment: ${attachment.transferName} saved to ${filePath}]`;
+        }
       } catch (err) {
         logger.error(`Failed to download attachment ${attachment.guid}:`, err);
         await sendResponse(
@@ -325,20 +1520,22 @@ export async function handleNewMessage(message: BBMessage): Promise<void> {
   // Skip if no content
   if (!text.trim()) return;
 
-  // Build channel and session info
-  const channelId = isGroup ? `group:${chatGuid}` : `dm:${senderAddress}`;
-  const channelInfo: ChannelInfo = {
-    type: "bluebubbles",
-    id: channelId,
-    name: isGroup ? message.chats[0].displayName || "Group Chat" : "BlueBubbles DM",
-  };
-  const sessionKey = `bluebubbles-${chatGuid}`;
+  // Build channel info
+  const channelInfo = buildChannelInfo(chatGuid, senderAddress, message.chats[0]);
 
   const logOptions: LogMessageOptions = {
-    from: senderAddress,
+    from: senderName(senderAddress),
     channel: channelInfo,
   };
   ctx.logMessage(sessionKey, text, logOptions);
+  messageCache.set({
+    guid: message.guid,
+    chatGuid,
+    text,
+    sender: senderAddress,
+    isFromMe: false,
+    dateCreated: message.dateCreated,
+  });
 
   // Send ack reaction if Private API available and reactions enabled
   if (config.enableReactions !== false && privateApiAvailable) {
@@ -349,21 +1546,122 @@ export async function handleNewMessage(message: BBMessage): Promise<void> {
     }
   }
 
+  // Give the agent the message an inline reply points at
+  const context = config.quoteReplies !== false ? await replyContext(message) : null;
+
+  const turn: InboundTurn = {
+    chatGuid,
+    sessionKey,
+    senderAddress,
+    channelInfo,
+    text: context ? `${context} ${text}` : text,
+    images,
+    replyToGuid: message.guid,
+  };
+
+  // Merge bursts of messages from the same sender into one turn
+  if (coalescer) {
+    coalescer.add(chatGuid, senderAddress, turn);
+    return;
+  }
+  await respondToTurn(turn);
+}
+
+// A message by GUID from the cache, falling back to the API (and caching it)
+async function lookupMessage(guid: string): Promise<CachedMessage | null> {
+  const cached = messageCache.get(guid);
+  if (cached || !bbClient) return cached ?? null;
+  try {
+    const original = (await bbClient.getMessage(guid)).data;
+    if (!original) return null;
+    const entry: CachedMessage = {
+      guid,
+      chatGuid: original.chats?.[0]?.guid ?? "",
+      text: original.text || "",
+      sender: senderOf(original) ?? "",
+      isFromMe: original.isFromMe,
+      dateCreated: original.dateCreated,
+      retracted: !!original.dateRetracted,
+    };
+    messageCache.set(entry);
+    return entry;
+  } catch (err) {
+    logger.warn(`Failed to fetch replied-to message ${guid}:`, err);
+    return null;
+  }
+}
+
+// Quote of the message an inline reply points at, from the cache or the API
+async function replyContext(message: BBMessage): Promise<string | null> {
+  // replyToGuid is also set on ordinary messages (it points at the previous
+  // message in the chat), so only the thread originator marks an inline reply
+  if (!message.threadOriginatorGuid) return null;
+  const quoted = await lookupMessage(stripAssociatedGuid(message.threadOriginatorGuid));
+  if (!quoted) return null;
+  return describeReply({
+    text: quoted.text,
+    sender: quoted.isFromMe ? null : quoted.sender ? senderName(quoted.sender) : "someone",
+    retracted: quoted.retracted,
+  });
+}
+
+// Combine coalesced turns: texts in order, all images, reply to the last message
+function mergeTurns(turns: InboundTurn[]): InboundTurn {
+  const last = turns[turns.length - 1];
+  return {
+    ...last,
+    text: turns.map((t) => t.text).join("\n"),
+    images: turns.flatMap((t) => t.images),
+  };
+}
+
+// Inject a turn into WOPR and send the agent's reply back to the chat
+async function respondToTurn(turn: InboundTurn): Promise<void> {
+  if (isShuttingDown || !ctx || !bbClient) return;
+  const { chatGuid, sessionKey, senderAddress, channelInfo, text, images, replyToGuid } = turn;
+
+  // Optionally stream the reply as it is generated, one piece per message
+  const streamer = config.streamResponses
+    ? new StreamBuffer(
+        (piece, index) => sendResponse(chatGuid, piece, index === 0 ? replyToGuid : undefined),
+        {
+          minIntervalMs: config.streamMinIntervalMs,
+          maxIntervalMs: config.streamMaxIntervalMs,
+        },
+      )
+    : null;
+
   // Inject message into WOPR and get response
-  const prefix = `[${senderAddress}]: `;
+  const prefix = `[${senderName(senderAddress)}]: `;
   let response: string;
+  startTypingIndicator(chatGuid);
   try {
     response = await ctx.inject(sessionKey, prefix + text, {
+      // The handle, not the contact name: names can change and collide
       from: senderAddress,
       channel: channelInfo,
+      images: images.length > 0 ? images : undefined,
+      onStream: streamer
+        ? (msg: StreamMessage) => {
+            if (msg.type === "text") streamer.push(msg.content);
+          }
+        : undefined,
     });
   } catch (err) {
+    streamer?.cancel();
     logger.error("Failed to inject message:", err);
     return;
+  } finally {
+    void stopTypingIndicator(chatGuid);
   }
 
-  // Send response back
-  await sendResponse(chatGuid, response, message.guid);
+  // Send response back (unless it was already streamed)
+  const streamed = streamer ? await streamer.finish() : false;
+  if (!streamed) {
+    await sendResponse(chatGuid, response, replyToGuid);
+  }
+  const answered = messageCache.get(replyToGuid);
+  if (answered) answered.answered = true;
 
   // Mark chat as read if Private API available
   if (config.sendReadReceipts !== false && privateApiAvailable) {
@@ -375,11 +1673,181 @@ export async function handleNewMessage(message: BBMessage): Promise<void> {
   }
 }
 
+function createCoalescer(): Coalescer<InboundTurn> | null {
+  const windowMs = config.coalesceWindowMs ?? 0;
+  if (windowMs <= 0) return null;
+  return new Coalescer<InboundTurn>(
+    { windowMs, maxWaitMs: config.coalesceMaxWaitMs ?? 15_000 },
+    (chatGuid, turns) => {
+      if (turns.length > 1) logger.info(`Coalesced ${turns.length} messages in ${chatGuid}`);
+      return chatQueue
+        .enqueue(chatGuid, () => respondToTurn(mergeTurns(turns)))
+        .catch((err) => {
+          logger.error("Failed to respond to coalesced messages:", err);
+        });
+    },
+  );
+}
+
+// WOPR CLI commands
+const commands: PluginCommand[] = [
+  {
+    name: "bluebubbles",
+    description: "Manage BlueBubbles pairing requests",
+    usage: "wopr bluebubbles pairing <list|approve CODE|deny CODE|revoke ADDRESS>",
+    async handler(context: WOPRPluginContext, args: string[]): Promise<void> {
+      if (args[0] !== "pairing") {
+        console.log("Usage: wopr bluebubbles pairing <list|approve CODE|deny CODE|revoke ADDRESS>");
+        return;
+      }
+      const store = pairingStore ?? createPairingStore(context.getPluginDir());
+      await store.load();
+      console.log(await runPairingCommand(store, args.slice(1)));
+    },
+  },
+];
+
+const QUEUE_WAIT_WARN_MS = 30_000;
+
+function createChatQueue(): ChatQueue {
+  return new ChatQueue(config.maxConcurrentChats || 4, ({ chatGuid, waitMs, depth }) => {
+    const line = `Processing ${chatGuid} after ${waitMs}ms in queue (depth ${depth})`;
+    if (waitMs >= QUEUE_WAIT_WARN_MS) logger.warn(line);
+    else logger.debug(line);
+  });
+}
+
+// Queue an inbound message so each chat is processed strictly in order
+export function queueNewMessage(message: BBMessage): Promise<void> {
+  const chatGuid = message.chats?.[0]?.guid ?? "";
+  return chatQueue.enqueue(chatGuid, () => handleNewMessage(message));
+}
+
+export function queueUpdatedMessage(message: BBMessage): Promise<void> {
+  const chatGuid = message.chats?.[0]?.guid ?? "";
+  return chatQueue.enqueue(chatGuid, () => handleUpdatedMessage(message));
+}
+
+// Replay inbound messages that arrived while we were disconnected
+export async function catchUpMissedMessages(): Promise<void> {
+  if (!bbClient || !cursorStore || catchUpRunning || config.catchUpOnReconnect === false) return;
+  catchUpRunning = true;
+  try {
+    const result = await runCatchUp(bbClient, cursorStore, queueNewMessage, {
+      maxAgeMs: (config.catchUpMaxAgeMinutes ?? 60) * 60 * 1000,
+    });
+    if (result.replayed > 0) {
+      logger.info(`Caught up ${result.replayed} missed message(s) in ${result.chats} chat(s)`);
+    }
+  } catch (err) {
+    logger.error("Failed to catch up on missed messages:", err);
+  } finally {
+    catchUpRunning = false;
+  }
+}
+
+// Event handlers shared by the Socket.IO connection and the webhook listener
+function inboundHandlers(): WebhookHandlers {
+  return {
+    onNewMessage: (message) => {
+      bbClient?.noteEvent();
+      queueNewMessage(message).catch((err) => logger.error("Failed to handle message:", err));
+    },
+    onUpdatedMessage: (message) => {
+      bbClient?.noteEvent();
+      queueUpdatedMessage(message).catch((err) =>
+        logger.error("Failed to handle updated message:", err),
+      );
+    },
+    onTyping: (notification) => {
+      coalescer?.typing(notification.guid, notification.display);
+    },
+  };
+}
+
+// The URL BlueBubbles should POST to, carrying the shared secret if set
+function webhookTargetUrl(): string | null {
+  if (!config.webhookUrl) return null;
+  const url = new URL(config.webhookUrl);
+  if (config.webhookSecret) url.searchParams.set("secret", config.webhookSecret);
+  return url.toString();
+}
+
+// Register our webhook with the server, reusing one left by an earlier run
+async function registerWebhook(): Promise<void> {
+  const target = webhookTargetUrl();
+  if (!bbClient || !target) {
+    logger.warn(
+      "webhookAutoRegister is on but webhookUrl is not set; register the webhook manually",
+    );
+    return;
+  }
+  try {
+    const existing = (await bbClient.listWebhooks()).data?.find((hook) => hook.url === target);
+    if (existing) {
+      // Not ours to remove at shutdown
+      logger.info("Registered BlueBubbles webhook (already present)");
+      return;
+    }
+    const hook = (await bbClient.createWebhook(target, WEBHOOK_EVENTS)).data;
+    registeredWebhookId = hook?.id ?? null;
+    logger.info("Registered BlueBubbles webhook");
+  } catch (err) {
+    logger.error("Failed to register BlueBubbles webhook:", err);
+  }
+}
+
+// Receive events over HTTP instead of Socket.IO
+async function startWebhookIngest(): Promise<void> {
+  if (!config.webhookSecret) {
+    logger.error(
+      "Webhook mode needs a webhookSecret; without one anyone who can reach the listener could post messages as any sender. Not starting the listener.",
+    );
+    return;
+  }
+  webhookServer = new WebhookServer(
+    {
+      host: config.webhookHost,
+      port: config.webhookPort,
+      path: config.webhookPath,
+      secret: config.webhookSecret,
+    },
+    inboundHandlers(),
+  );
+  try {
+    const port = await webhookServer.start();
+    logger.info(`BlueBubbles webhook listener started on port ${port}`);
+    bbClient?.monitor();
+  } catch (err) {
+    logger.error("Failed to start BlueBubbles webhook listener:", err);
+    webhookServer = null;
+    return;
+  }
+  if (config.webhookAutoRegister) await registerWebhook();
+  // There is no connect event in webhook mode, so catch up once at startup
+  void catchUpMissedMessages();
+}
+
+async function stopWebhookIngest(): Promise<void> {
+  if (registeredWebhookId !== null && bbClient) {
+    try {
+      await bbClient.deleteWebhook(registeredWebhookId);
+      logger.info("Unregistered BlueBubbles webhook");
+    } catch (err) {
+      logger.warn("Failed to unregister BlueBubbles webhook:", err);
+    }
+  }
+  registeredWebhookId = null;
+  await webhookServer?.stop();
+  webhookServer = null;
+}
+
 // Plugin definition
 const plugin: WOPRPlugin = {
   name: "bluebubbles",
   version: "1.0.0",
   description: "BlueBubbles iMessage/SMS bridge",
+  commands,
 
   async init(context: WOPRPluginContext): Promise<void> {
     ctx = context;
@@ -393,6 +1861,19 @@ const plugin: WOPRPlugin = {
 
     await refreshIdentity();
 
+    // Load persisted pairing approvals
+    pairingStore = createPairingStore(ctx.getPluginDir());
+    try {
+      await pairingStore.load();
+    } catch (err) {
+      logger.warn("Failed to load pairing store:", err);
+    }
+    try {
+      await loadSessionOverrides();
+    } catch (err) {
+      logger.warn("Failed to load session overrides:", err);
+    }
+
     // Validate credentials
     let serverUrl: string;
     let password: string;
@@ -406,7 +1887,14 @@ const plugin: WOPRPlugin = {
     }
 
     // Create client and ping server
-    bbClient = new BlueBubblesClient(serverUrl, password);
+    bbClient = new BlueBubblesClient(serverUrl, password, {
+      authMode: config.authMode,
+      timeoutMs: config.requestTimeoutMs,
+      retries: config.requestRetries,
+      healthCheckIntervalMs: config.healthCheckIntervalMs,
+      reconnectDelayMs: config.reconnectDelayMs,
+    });
+    bbClient.setOnStateChange(handleStateChange);
 
     try {
       const alive = await bbClient.ping();
@@ -416,7 +1904,11 @@ const plugin: WOPRPlugin = {
         return;
       }
     } catch (err) {
-      logger.error("Failed to ping BlueBubbles server:", err);
+      if (err instanceof BlueBubblesAuthError) {
+        logger.error("BlueBubbles rejected the password. Check your server password.");
+      } else {
+        logger.error("Failed to ping BlueBubbles server:", err);
+      }
       bbClient = null;
       return;
     }
@@ -435,9 +1927,55 @@ const plugin: WOPRPlugin = {
       privateApiAvailable = false;
     }
 
+    // Contact names; overrides apply even when contacts aren't loaded
+    contactResolver = new ContactResolver(bbClient, {
+      refreshMs: (config.contactsRefreshMinutes ?? 60) * 60 * 1000,
+      overrides: config.contactNames,
+      defaultCountry: config.defaultCountry,
+      onError: (err) => logger.warn("Failed to load BlueBubbles contacts:", err),
+    });
+    if (config.resolveContacts !== false) {
+      await contactResolver.start();
+      logger.info(`Loaded ${contactResolver.size} contact names`);
+    }
+
     // Wire event handlers
-    bbClient.setOnNewMessage(handleNewMessage);
-    bbClient.setOnUpdatedMessage(handleUpdatedMessage);
+    chatQueue = createChatQueue();
+    rateLimiters = createRateLimiters();
+    coalescer = createCoalescer();
+    const handlers = inboundHandlers();
+    bbClient.setOnNewMessage(handlers.onNewMessage);
+    bbClient.setOnUpdatedMessage(handlers.onUpdatedMessage);
+    bbClient.setOnTyping(handlers.onTyping);
+    bbClient.setOnConnect(() => {
+      void catchUpMissedMessages();
+    });
+
+    // Load the duplicate-GUID store before any message can arrive
+    dedupeStore = new DedupeStore({
+      windowMs: (config.dedupeWindowMinutes ?? 24 * 60) * 60 * 1000,
+      filePath:
+        config.dedupePersist === false ? undefined : path.join(ctx.getPluginDir(), "dedupe.json"),
+      onSaveError: (err) => logger.warn("Failed to save dedupe store:", err),
+    });
+    try {
+      await dedupeStore.load();
+    } catch (err) {
+      logger.warn("Failed to load dedupe store:", err);
+    }
+
+    // Load catch-up cursors before the first connect
+    cursorStore = new CursorStore(path.join(ctx.getPluginDir(), "cursors.json"));
+    try {
+      await cursorStore.load();
+    } catch (err) {
+      logger.warn("Failed to load catch-up cursors:", err);
+    }
+
+    if (config.ingestMode === "webhook") {
+      await startWebhookIngest();
+      return;
+    }
 
     // Connect Socket.IO
     try {
@@ -449,9 +1987,25 @@ const plugin: WOPRPlugin = {
   },
 
   async shutdown(): Promise<void> {
+    // Held messages are already deduped and behind the catch-up cursor, so
+    // answer them now rather than dropping them
+    const pending = coalescer;
+    coalescer = null;
+    await pending?.flushAll();
     isShuttingDown = true;
+    await stopAllTypingIndicators();
+    await stopWebhookIngest();
     bbClient?.disconnect();
     bbClient = null;
+    pairingStore = null;
+    contactResolver?.stop();
+    contactResolver = null;
+    messageCache.clear();
+    groupTitles.clear();
+    groupMembers.clear();
+    cursorStore = null;
+    await dedupeStore?.flush();
+    dedupeStore = null;
     ctx = null;
   },
 };
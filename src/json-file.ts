@@ -0,0 +1,26 @@
+/**
+ * Small helpers for JSON state files kept in the plugin directory.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Read a JSON file, returning `fallback` if it doesn't exist
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+  return JSON.parse(raw) as T;
+}
+
+// Write a JSON file atomically (temp file + rename), creating parent dirs
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(data, null, 2), "utf8");
+  await rename(tmpPath, filePath);
+}
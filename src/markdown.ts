@@ -0,0 +1,207 @@
+/**
+ * Markdown to iMessage text. Agents answer in Markdown, which Messages shows
+ * as raw symbols, so replies are converted to readable plain text before
+ * they are chunked and sent. Fenced code blocks are passed through verbatim.
+ */
+
+// raw: send as-is. minimal: only convert constructs that are unreadable raw
+// (emphasis markers, headings, links, tables). plain: also turn lists,
+// quotes, rules and inline code into plain text.
+export type MarkdownMode = "raw" | "plain" | "minimal";
+
+type Align = "left" | "right" | "center";
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HEADING_RE = /^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_RE = /^\[([ xX])\]\s+/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const ESCAPE_RE = /\\([\\`*_{}[\]()#+\-.!|>~])/g;
+// Escaped characters are swapped for private-use placeholders while the
+// emphasis patterns run, then restored
+const ESCAPE_BASE = 0xe000;
+
+function protectEscapes(text: string, escaped: string[]): string {
+  return text.replace(ESCAPE_RE, (_, ch: string) => {
+    escaped.push(ch);
+    return String.fromCharCode(ESCAPE_BASE + escaped.length - 1);
+  });
+}
+
+function restoreEscapes(text: string, escaped: string[]): string {
+  if (!escaped.length) return text;
+  return text.replace(/[\uE000-\uF8FF]/g, (ch) => {
+    const original = escaped[ch.charCodeAt(0) - ESCAPE_BASE];
+    return original ?? ch;
+  });
+}
+
+function formatLink(label: string, url: string): string {
+  const target = url.replace(/^mailto:/, "");
+  if (!label || label === url || label === target) return target;
+  return `${label} (${url})`;
+}
+
+// Convert inline markup in a run of text that contains no code spans
+function formatInlineText(text: string, mode: MarkdownMode): string {
+  let out = text
+    .replace(
+      /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_, alt: string, url: string) => formatLink(alt, url),
+    )
+    .replace(
+      /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_, label: string, url: string) => formatLink(label, url),
+    )
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, (_, url: string) => url.replace(/^mailto:/, ""))
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, "$1")
+    .replace(/(?<!\w)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, "$1")
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "$1");
+  if (mode === "plain") {
+    out = out
+      .replace(/(?<![\w*])\*(?=\S)(.+?)(?<=\S)\*(?![\w*])/g, "$1")
+      .replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, "$1");
+  }
+  return out;
+}
+
+// Convert inline markup, leaving `code spans` untouched (minus backticks in plain mode)
+export function formatInline(text: string, mode: MarkdownMode = "plain"): string {
+  if (mode === "raw") return text;
+  const escaped: string[] = [];
+  const codeSpan = /(`+)([\s\S]*?[^`])\1(?!`)/g;
+  let out = "";
+  let last = 0;
+  for (let m = codeSpan.exec(text); m; m = codeSpan.exec(text)) {
+    out += formatInlineText(protectEscapes(text.slice(last, m.index), escaped), mode);
+    out += mode === "plain" ? m[2].trim() : m[0];
+    last = m.index + m[0].length;
+  }
+  out += formatInlineText(protectEscapes(text.slice(last), escaped), mode);
+  return restoreEscapes(out, escaped);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function columnAlign(spec: string): Align {
+  const s = spec.trim();
+  if (s.startsWith(":") && s.endsWith(":")) return "center";
+  if (s.endsWith(":")) return "right";
+  return "left";
+}
+
+// Length in user-visible characters (code points), not UTF-16 units
+function visibleLength(text: string): number {
+  return [...text].length;
+}
+
+function pad(text: string, width: number, align: Align): string {
+  const gap = width - visibleLength(text);
+  if (gap <= 0) return text;
+  if (align === "right") return " ".repeat(gap) + text;
+  if (align === "center") {
+    const left = Math.floor(gap / 2);
+    return " ".repeat(left) + text + " ".repeat(gap - left);
+  }
+  return text + " ".repeat(gap);
+}
+
+// Render a Markdown table as lines of space-aligned columns
+export function formatTable(lines: string[], mode: MarkdownMode = "plain"): string[] {
+  const [header, separator, ...body] = lines;
+  const aligns = splitTableRow(separator).map(columnAlign);
+  const rows = [header, ...body].map((line) =>
+    splitTableRow(line).map((cell) => formatInline(cell, mode)),
+  );
+  const columns = Math.max(...rows.map((row) => row.length));
+  const widths = Array.from({ length: columns }, (_, col) =>
+    Math.max(...rows.map((row) => visibleLength(row[col] ?? ""))),
+  );
+  return rows.map((row) =>
+    widths
+      .map((width, col) => pad(row[col] ?? "", width, aligns[col] ?? "left"))
+      .join("  ")
+      .trimEnd(),
+  );
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return (
+    lines[i].includes("|") &&
+    i + 1 < lines.length &&
+    lines[i + 1].includes("|") &&
+    TABLE_SEPARATOR_RE.test(lines[i + 1])
+  );
+}
+
+function formatLine(line: string, mode: MarkdownMode): string {
+  const heading = HEADING_RE.exec(line);
+  if (heading) return formatInline(heading[1], mode);
+
+  if (mode === "minimal") return formatInline(line, mode);
+
+  if (RULE_RE.test(line)) return "──────────";
+
+  const item = LIST_RE.exec(line);
+  if (item) {
+    const [, indent, marker, rest] = item;
+    const depth = Math.floor(indent.replace(/\t/g, "  ").length / 2);
+    const bullet = /\d/.test(marker) ? `${marker.slice(0, -1)}.` : "•";
+    const task = TASK_RE.exec(rest);
+    const content = task ? `${task[1] === " " ? "☐" : "☑"} ${rest.slice(task[0].length)}` : rest;
+    return `${"  ".repeat(depth)}${bullet} ${formatInline(content, mode)}`;
+  }
+
+  const quote = QUOTE_RE.exec(line);
+  if (quote) return `│ ${formatLine(quote[1], mode)}`.trimEnd();
+
+  return formatInline(line, mode);
+}
+
+// Convert Markdown to text suitable for iMessage/SMS
+export function formatMarkdown(text: string, mode: MarkdownMode = "plain"): string {
+  if (mode === "raw") return text;
+
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = FENCE_RE.exec(line);
+    if (fence) {
+      out.push(line);
+      if (fenceMatch && fenceMatch[1] === fence) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      out.push(line);
+      continue;
+    }
+    if (isTableStart(lines, i)) {
+      const table = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) {
+        table.push(lines[i]);
+        i++;
+      }
+      i--;
+      out.push(...formatTable(table, mode));
+      continue;
+    }
+    out.push(formatLine(line, mode));
+  }
+
+  return out
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,25 @@
+/**
+ * Detects when a group message addresses the agent by name or emoji.
+ */
+
+import type { AgentIdentity } from "./types.js";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// True if the text mentions the agent's name (as a whole word, optionally
+// with a leading "@") or contains the agent's emoji
+export function mentionsAgent(text: string, identity: AgentIdentity): boolean {
+  if (!text) return false;
+  const name = identity.name?.trim();
+  if (name) {
+    const pattern = new RegExp(
+      `(^|[^\\p{L}\\p{N}_])@?${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`,
+      "iu",
+    );
+    if (pattern.test(text)) return true;
+  }
+  const emoji = identity.emoji?.trim();
+  return !!emoji && text.includes(emoji);
+}
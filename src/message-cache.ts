@@ -0,0 +1,54 @@
+/**
+ * Bounded in-memory cache of recent messages (inbound and our own replies),
+ * used to look up the text behind tapbacks and replies.
+ */
+
+export interface CachedMessage {
+  guid: string;
+  chatGuid: string;
+  text: string;
+  sender: string;
+  isFromMe: boolean;
+  dateCreated: number;
+  // Set once the message has been edited or unsent
+  editedAt?: number;
+  retracted?: boolean;
+  // Whether the agent replied to this (inbound) message
+  answered?: boolean;
+}
+
+export class MessageCache {
+  private maxSize: number;
+  private messages = new Map<string, CachedMessage>();
+
+  constructor(maxSize = 500) {
+    this.maxSize = maxSize;
+  }
+
+  set(message: CachedMessage): void {
+    // Re-insert so the entry moves to the newest position
+    this.messages.delete(message.guid);
+    this.messages.set(message.guid, message);
+    while (this.messages.size > this.maxSize) {
+      const oldest = this.messages.keys().next().value;
+      if (oldest === undefined) break;
+      this.messages.delete(oldest);
+    }
+  }
+
+  get(guid: string): CachedMessage | undefined {
+    return this.messages.get(guid);
+  }
+
+  has(guid: string): boolean {
+    return this.messages.has(guid);
+  }
+
+  clear(): void {
+    this.messages.clear();
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Outbound attachments: find files and images referenced in agent output
+ * (markdown images, data: URIs, local paths inside the WOPR home) and load
+ * them for upload, enforcing size and MIME limits.
+ */
+
+import { readFile, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+import { sanitizePathSegment } from "./attachments.js";
+
+export type ResponseSegment =
+  | { type: "text"; text: string }
+  | { type: "attachment"; source: string; name?: string };
+
+export interface OutboundAttachment {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+export interface OutboundLimits {
+  maxBytes: number;
+  allowedMimeTypes: string[];
+  // Local files must live under one of these directories
+  roots: string[];
+  // ...and outside all of these (plugin state, logs)
+  excluded?: string[];
+}
+
+export const DEFAULT_OUTBOUND_MIME_TYPES = [
+  "image/*",
+  "video/*",
+  "audio/*",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/calendar",
+  "text/vcard",
+];
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".wav": "audio/wav",
+  ".caf": "audio/x-caf",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".ics": "text/calendar",
+  ".vcf": "text/vcard",
+  ".json": "application/json",
+  ".zip": "application/zip",
+};
+
+const EXTENSION_BY_MIME: Record<string, string> = Object.fromEntries(
+  Object.entries(MIME_BY_EXTENSION)
+    .reverse()
+    .map(([ext, mime]) => [mime, ext]),
+);
+
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/.source;
+const DATA_URI = /data:[\w.+-]+\/[\w.+-]+(?:;[\w-]+=[\w.-]+)*;base64,[A-Za-z0-9+/=]+/.source;
+const FILE_PATH = /(?<![\w/.~])(?:file:\/\/)?\/[^\s<>"'()[\]`]+/.source;
+// Fenced code blocks (to the end if unclosed) and inline code spans
+const CODE = /(```|~~~)[\s\S]*?(?:\1|$)|`[^`\n]+`/g;
+
+export function mimeTypeForPath(filePath: string): string {
+  return MIME_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+export function isMimeAllowed(mimeType: string, allowed: string[]): boolean {
+  const type = mimeType.toLowerCase();
+  return allowed.some((pattern) => {
+    const p = pattern.toLowerCase().trim();
+    return p === "*/*" || p === type || (p.endsWith("/*") && type.startsWith(p.slice(0, -1)));
+  });
+}
+
+function isInside(filePath: string, root: string): boolean {
+  const relative = path.relative(root, filePath);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+function toLocalPath(source: string): string {
+  return source.startsWith("file://") ? decodeURIComponent(source.slice("file://".length)) : source;
+}
+
+function isAllowedPath(filePath: string, roots: string[], excluded: string[]): boolean {
+  return (
+    roots.some((root) => isInside(filePath, root)) &&
+    !excluded.some((dir) => isInside(filePath, dir))
+  );
+}
+
+function isAttachable(source: string, roots: string[], excluded: string[]): boolean {
+  if (source.startsWith("data:")) return true;
+  const local = toLocalPath(source);
+  if (!path.isAbsolute(local)) return false;
+  return isAllowedPath(
+    path.resolve(local),
+    roots.map((root) => path.resolve(root)),
+    excluded.map((dir) => path.resolve(dir)),
+  );
+}
+
+function isSendableFile(source: string, limits: OutboundLimits): Promise<boolean> {
+  return checkLocalFile(source, limits).then(
+    () => true,
+    () => false,
+  );
+}
+
+function codeRanges(text: string): Array<[number, number]> {
+  return [...text.matchAll(CODE)].map((m) => [m.index, m.index + m[0].length]);
+}
+
+// Split agent output into text and attachment segments, in order. References
+// that can't be attached (e.g. remote URLs, paths outside the roots) and
+// anything inside code stay text. Bare paths only become attachments when they
+// name a file that can be sent, since the agent often mentions paths in prose.
+export async function splitAttachments(
+  text: string,
+  limits: OutboundLimits,
+): Promise<ResponseSegment[]> {
+  const segments: ResponseSegment[] = [];
+  const pattern = new RegExp(`${MARKDOWN_IMAGE}|${DATA_URI}|${FILE_PATH}`, "g");
+  const code = codeRanges(text);
+  let pendingText = "";
+  let last = 0;
+
+  for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+    const start = m.index;
+    const inCode = code.find(([from, to]) => start >= from && start < to);
+    if (inCode) {
+      pattern.lastIndex = inCode[1];
+      continue;
+    }
+    const isImage = m[0].startsWith("!");
+    // Trailing sentence punctuation is not part of a bare path
+    const raw = isImage ? m[2] : m[0].replace(/[.,;:!?]+$/, "");
+    const end = isImage ? m.index + m[0].length : m.index + raw.length;
+    if (!isAttachable(raw, limits.roots, limits.excluded ?? [])) continue;
+    const isBare = !isImage && !raw.startsWith("data:");
+    if (isBare && !(await isSendableFile(raw, limits))) continue;
+
+    pendingText += text.slice(last, m.index);
+    if (pendingText.trim()) segments.push({ type: "text", text: pendingText.trim() });
+    pendingText = "";
+    segments.push({ type: "attachment", source: raw, name: isImage && m[1] ? m[1] : undefined });
+    last = end;
+    pattern.lastIndex = end;
+  }
+
+  pendingText += text.slice(last);
+  if (pendingText.trim()) segments.push({ type: "text", text: pendingText.trim() });
+  return segments;
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function checkLimits(mimeType: string, size: number, limits: OutboundLimits): void {
+  if (size > limits.maxBytes) {
+    throw new Error(`file is too large (${formatMb(size)} > ${formatMb(limits.maxBytes)})`);
+  }
+  if (!isMimeAllowed(mimeType, limits.allowedMimeTypes)) {
+    throw new Error(`file type ${mimeType} is not allowed`);
+  }
+}
+
+// Load an attachment segment's bytes. Throws an Error with a short,
+// user-presentable reason if the attachment can't be sent.
+export async function loadOutboundAttachment(
+  source: string,
+  limits: OutboundLimits,
+  name?: string,
+): Promise<OutboundAttachment> {
+  if (source.startsWith("data:")) {
+    const match = /^data:([^;,]+)[^,]*;base64,(.*)$/s.exec(source);
+    if (!match) throw new Error("malformed data URI");
+    const mimeType = match[1].toLowerCase();
+    const data = Buffer.from(match[2], "base64");
+    checkLimits(mimeType, data.length, limits);
+    const base = sanitizePathSegment(name || "attachment");
+    const filename = path.extname(base) ? base : `${base}${EXTENSION_BY_MIME[mimeType] ?? ""}`;
+    return { data, filename, mimeType };
+  }
+
+  const { real, mimeType } = await checkLocalFile(source, limits);
+  return { data: await readFile(real), filename: path.basename(real), mimeType };
+}
+
+// Resolve a local file reference and check it can be sent. Throws like
+// loadOutboundAttachment() if not.
+async function checkLocalFile(
+  source: string,
+  limits: OutboundLimits,
+): Promise<{ real: string; mimeType: string }> {
+  const local = path.resolve(toLocalPath(source));
+  let real: string;
+  try {
+    real = await realpath(local);
+  } catch {
+    throw new Error("file not found");
+  }
+  // Resolve symlinks before checking the file is still inside a root
+  const resolve = (dirs: string[]) =>
+    Promise.all(dirs.map((dir) => realpath(dir).catch(() => path.resolve(dir))));
+  const [realRoots, realExcluded] = await Promise.all([
+    resolve(limits.roots),
+    resolve(limits.excluded ?? []),
+  ]);
+  if (!isAllowedPath(real, realRoots, realExcluded)) {
+    throw new Error("file is outside the allowed directories");
+  }
+  const info = await stat(real);
+  if (!info.isFile()) throw new Error("not a regular file");
+  const mimeType = mimeTypeForPath(real);
+  checkLimits(mimeType, info.size, limits);
+  return { real, mimeType };
+}
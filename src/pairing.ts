@@ -0,0 +1,164 @@
+/**
+ * Pairing store for the "pairing" DM policy.
+ *
+ * Unknown senders receive a short one-time code. Once the operator approves
+ * the code, the sender's address is persisted so it survives restarts.
+ * Pending codes are persisted too, so a code can be approved from another
+ * process (e.g. the WOPR CLI) that loads the same file.
+ */
+
+import { randomInt } from "node:crypto";
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+
+// Unambiguous alphabet (no 0/O, 1/I/L)
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+export interface PairingRequest {
+  code: string;
+  address: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface PairingApproval {
+  address: string;
+  approvedAt: number;
+}
+
+export interface PairingStoreOptions {
+  codeTtlMs?: number;
+  maxPending?: number;
+}
+
+export type PairingRequestResult =
+  | { status: "created"; request: PairingRequest }
+  | { status: "pending"; request: PairingRequest }
+  | { status: "rate-limited" };
+
+interface PairingFile {
+  pending: PairingRequest[];
+  approved: PairingApproval[];
+}
+
+export class PairingStore {
+  private filePath: string;
+  private codeTtlMs: number;
+  private maxPending: number;
+  private pending = new Map<string, PairingRequest>();
+  private approved = new Map<string, PairingApproval>();
+
+  constructor(filePath: string, opts: PairingStoreOptions = {}) {
+    this.filePath = filePath;
+    this.codeTtlMs = opts.codeTtlMs ?? 60 * 60 * 1000;
+    this.maxPending = opts.maxPending ?? 3;
+  }
+
+  async load(): Promise<void> {
+    const data = await readJsonFile<Partial<PairingFile>>(this.filePath, {});
+    this.pending.clear();
+    for (const request of data.pending || []) {
+      if (request?.code && request.address) {
+        this.pending.set(request.code, request);
+      }
+    }
+    this.approved.clear();
+    for (const entry of data.approved || []) {
+      if (entry?.address) {
+        this.approved.set(entry.address.toLowerCase(), entry);
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    const data: PairingFile = {
+      pending: [...this.pending.values()],
+      approved: [...this.approved.values()],
+    };
+    await writeJsonFile(this.filePath, data);
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [code, request] of this.pending) {
+      if (request.expiresAt <= now) this.pending.delete(code);
+    }
+  }
+
+  private generateCode(): string {
+    for (;;) {
+      let code = "";
+      for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+      }
+      if (!this.pending.has(code)) return code;
+    }
+  }
+
+  isApproved(address: string): boolean {
+    return this.approved.has(address.toLowerCase());
+  }
+
+  // Issue a code for an unknown sender. An address with an unexpired code
+  // keeps it, and no new codes are issued while the pending queue is full.
+  async requestCode(address: string, now = Date.now()): Promise<PairingRequestResult> {
+    this.pruneExpired(now);
+    const key = address.toLowerCase();
+    for (const request of this.pending.values()) {
+      if (request.address.toLowerCase() === key) {
+        return { status: "pending", request };
+      }
+    }
+    if (this.pending.size >= this.maxPending) {
+      return { status: "rate-limited" };
+    }
+    const request: PairingRequest = {
+      code: this.generateCode(),
+      address,
+      createdAt: now,
+      expiresAt: now + this.codeTtlMs,
+    };
+    this.pending.set(request.code, request);
+    await this.save();
+    return { status: "created", request };
+  }
+
+  // Approve a pending code. Returns the approved address, or null if the
+  // code is unknown or expired.
+  async approve(code: string, now = Date.now()): Promise<string | null> {
+    this.pruneExpired(now);
+    const request = this.pending.get(code.trim().toUpperCase());
+    if (!request) return null;
+    this.pending.delete(request.code);
+    this.approved.set(request.address.toLowerCase(), {
+      address: request.address,
+      approvedAt: now,
+    });
+    await this.save();
+    return request.address;
+  }
+
+  // Discard a pending code without approving it
+  async deny(code: string): Promise<string | null> {
+    const key = code.trim().toUpperCase();
+    const request = this.pending.get(key);
+    if (!request) return null;
+    this.pending.delete(key);
+    await this.save();
+    return request.address;
+  }
+
+  async revoke(address: string): Promise<boolean> {
+    if (!this.approved.delete(address.toLowerCase())) return false;
+    await this.save();
+    return true;
+  }
+
+  listPending(now = Date.now()): PairingRequest[] {
+    this.pruneExpired(now);
+    return [...this.pending.values()];
+  }
+
+  listApproved(): PairingApproval[] {
+    return [...this.approved.values()];
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Token-bucket rate limiter keyed by sender address or chat GUID.
+ */
+
+export interface RateLimiterOptions {
+  // Sustained rate; the bucket also holds up to this many tokens (burst)
+  perMinute: number;
+  // How often a throttled key may be told it is being throttled
+  noticeIntervalMs?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  lastNoticeAt: number;
+}
+
+const PRUNE_THRESHOLD = 1000;
+
+export class RateLimiter {
+  private capacity: number;
+  private refillPerMs: number;
+  private noticeIntervalMs: number;
+  private buckets = new Map<string, Bucket>();
+
+  constructor(opts: RateLimiterOptions) {
+    this.capacity = Math.max(1, opts.perMinute);
+    this.refillPerMs = this.capacity / 60_000;
+    this.noticeIntervalMs = opts.noticeIntervalMs ?? 60_000;
+  }
+
+  // Take a token for `key`. Returns false if the key is over its limit.
+  consume(key: string, now = Date.now()): boolean {
+    const bucket = this.refill(key, now);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  // True at most once per notice interval for a throttled key
+  shouldNotify(key: string, now = Date.now()): boolean {
+    const bucket = this.refill(key, now);
+    if (now - bucket.lastNoticeAt < this.noticeIntervalMs) return false;
+    bucket.lastNoticeAt = now;
+    return true;
+  }
+
+  private refill(key: string, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= PRUNE_THRESHOLD) this.prune(now);
+      bucket = { tokens: this.capacity, updatedAt: now, lastNoticeAt: -Infinity };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    const elapsed = Math.max(now - bucket.updatedAt, 0);
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + elapsed * this.refillPerMs);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  // Forget buckets that have refilled completely (same as a fresh bucket)
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      const tokens = bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs;
+      if (tokens >= this.capacity && now - bucket.lastNoticeAt >= this.noticeIntervalMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Log redaction. A winston format that masks the server password, auth
+ * query parameters and headers, and optionally phone numbers and email
+ * addresses, in every field of every log entry.
+ */
+
+import winston from "winston";
+
+export interface RedactOptions {
+  // Exact secret values to mask wherever they appear
+  secrets?: string[];
+  // Also mask phone numbers and email addresses
+  contacts?: boolean;
+}
+
+const MASK = "[REDACTED]";
+const AUTH_PARAM_RE = /([?&](?:password|guid|token|auth|api_?key|secret)=)[^&\s"'#]+/gi;
+const AUTH_HEADER_RE = /(authorization["']?\s*[:=]\s*["']?)(?:(?:bearer|basic)\s+)?[^\s"',}]+/gi;
+const PHONE_RE = /(?<![\w+])\+\d[\d\s().-]{5,}\d(?!\w)/g;
+const EMAIL_RE = /([\w.+-])[\w.+-]*(@[\w-]+(?:\.[\w-]+)+)/g;
+const MAX_DEPTH = 6;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Keep the last two digits so log lines can still be told apart
+function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return `+${"*".repeat(Math.max(digits.length - 2, 0))}${digits.slice(-2)}`;
+}
+
+// Mask secrets (and optionally contact details) in a string
+export function redactText(text: string, opts: RedactOptions = {}): string {
+  let out = text;
+  for (const secret of opts.secrets ?? []) {
+    if (!secret) continue;
+    for (const form of new Set([secret, encodeURIComponent(secret)])) {
+      out = out.replace(new RegExp(escapeRegExp(form), "g"), MASK);
+    }
+  }
+  out = out.replace(AUTH_PARAM_RE, `$1${MASK}`).replace(AUTH_HEADER_RE, `$1${MASK}`);
+  if (opts.contacts) {
+    out = out.replace(PHONE_RE, maskPhone).replace(EMAIL_RE, "$1***$2");
+  }
+  return out;
+}
+
+// Redact every string reachable from `value`, in place where possible
+export function redactValue(value: unknown, opts: RedactOptions, depth = 0): unknown {
+  if (typeof value === "string") return redactText(value, opts);
+  if (!value || typeof value !== "object" || depth >= MAX_DEPTH) return value;
+  if (ArrayBuffer.isView(value)) return value;
+
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) value[i] = redactValue(value[i], opts, depth + 1);
+    return value;
+  }
+  const record = value as Record<string | symbol, unknown>;
+  if (value instanceof Error) {
+    value.message = redactText(value.message, opts);
+    if (value.stack) value.stack = redactText(value.stack, opts);
+  }
+  for (const key of Reflect.ownKeys(record)) {
+    try {
+      record[key] = redactValue(record[key], opts, depth + 1);
+    } catch {
+      // Read-only property; leave it
+    }
+  }
+  return value;
+}
+
+// Winston format; `getOptions` is read per entry so the password can be
+// registered after the logger is created
+export function redactFormat(getOptions: () => RedactOptions): winston.Logform.Format {
+  return winston.format((info) => {
+    redactValue(info, getOptions());
+    return info;
+  })();
+}
@@ -0,0 +1,24 @@
+/**
+ * Inline reply context: a short quote of the message being replied to, so
+ * the agent can make sense of "what about this one?".
+ */
+
+import { truncate } from "./tapbacks.js";
+
+export interface QuotedMessage {
+  text: string;
+  // Display name of the original sender; null when it was the agent's own message
+  sender: string | null;
+  retracted?: boolean;
+}
+
+const QUOTE_MAX_LENGTH = 200;
+
+// e.g. `(replying to Bob: "the blue one")` or `(replying to your message: "...")`
+export function describeReply(quoted: QuotedMessage): string {
+  const whose = quoted.sender === null ? "your message" : quoted.sender;
+  const text = quoted.text === "\ufffc" ? "" : quoted.text.trim();
+  if (quoted.retracted) return `(replying to ${whose}: an unsent message)`;
+  if (!text) return `(replying to ${whose}: an attachment)`;
+  return `(replying to ${whose}: "${truncate(text, QUOTE_MAX_LENGTH)}")`;
+}
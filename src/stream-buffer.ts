@@ -0,0 +1,132 @@
+/**
+ * Buffers streamed agent output and releases it in natural pieces
+ * (paragraphs, then sentences) so each piece can be sent as its own message
+ * while generation continues.
+ */
+
+export interface StreamBufferOptions {
+  // Never flush more often than this
+  minIntervalMs?: number;
+  // Force a flush (at a word boundary) if nothing was sent for this long
+  maxIntervalMs?: number;
+}
+
+export type StreamSendFn = (text: string, index: number) => Promise<void>;
+
+const FENCE_RE = /^\s*(```|~~~)/gm;
+// A bulleted or numbered list item, and a line holding only its marker
+const LIST_ITEM_RE = /^\s*(?:[-*+]|\d+[.)])\s/m;
+const LIST_MARKER_RE = /^\s*(?:[-*+]|\d+[.)])$/;
+
+function insideCodeFence(text: string): boolean {
+  return (text.match(FENCE_RE)?.length ?? 0) % 2 === 1;
+}
+
+// Find the end of the last complete paragraph or sentence in `text`; in a
+// list, the last line break. Returns -1 if there is none, or if cutting there
+// would split a code block.
+export function findFlushBoundary(text: string): number {
+  let cut = -1;
+  const para = text.lastIndexOf("\n\n");
+  const line = text.lastIndexOf("\n");
+  if (para > 0) {
+    cut = para + 2;
+  } else if (line > 0 && LIST_ITEM_RE.test(text)) {
+    cut = line + 1;
+  } else {
+    const sentenceEnd = /[.!?…]["')\]]*\s+/g;
+    for (let m = sentenceEnd.exec(text); m; m = sentenceEnd.exec(text)) {
+      // "1. " starts a list item; it doesn't end a sentence
+      const lineStart = text.lastIndexOf("\n", m.index) + 1;
+      const lineSoFar = text.slice(lineStart, m.index + 1).replace(/["')\]]+$/, "");
+      if (LIST_MARKER_RE.test(lineSoFar)) continue;
+      cut = m.index + m[0].length;
+    }
+  }
+  if (cut > 0 && insideCodeFence(text.slice(0, cut))) return -1;
+  return cut;
+}
+
+export class StreamBuffer {
+  private send: StreamSendFn;
+  private minIntervalMs: number;
+  private maxIntervalMs: number;
+  private buffer = "";
+  private lastFlush = Date.now();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending: Promise<void> = Promise.resolve();
+  private sentCount = 0;
+  private closed = false;
+
+  constructor(send: StreamSendFn, opts: StreamBufferOptions = {}) {
+    this.send = send;
+    this.minIntervalMs = opts.minIntervalMs ?? 1000;
+    this.maxIntervalMs = Math.max(opts.maxIntervalMs ?? 8000, this.minIntervalMs);
+  }
+
+  push(text: string): void {
+    if (this.closed || !text) return;
+    this.buffer += text;
+    this.tryFlush(false);
+    this.schedule();
+  }
+
+  // Flush whatever is left and wait for all sends. Returns true if
+  // anything was sent through the stream.
+  async finish(): Promise<boolean> {
+    this.clearTimer();
+    this.closed = true;
+    const rest = this.buffer.trim();
+    this.buffer = "";
+    if (rest) this.enqueue(rest);
+    await this.sending;
+    return this.sentCount > 0;
+  }
+
+  // Stop without sending the remaining buffer (e.g. when inject fails)
+  cancel(): void {
+    this.clearTimer();
+    this.closed = true;
+    this.buffer = "";
+  }
+
+  private enqueue(piece: string): void {
+    const index = this.sentCount++;
+    this.lastFlush = Date.now();
+    this.sending = this.sending.then(() => this.send(piece, index)).catch(() => {});
+  }
+
+  private tryFlush(force: boolean): void {
+    if (!force && Date.now() - this.lastFlush < this.minIntervalMs) return;
+    let cut = findFlushBoundary(this.buffer);
+    if (cut <= 0 && force && !insideCodeFence(this.buffer)) {
+      const space = this.buffer.search(/\s\S*$/);
+      cut = space > 0 ? space + 1 : this.buffer.length;
+    }
+    if (cut <= 0) return;
+    const piece = this.buffer.slice(0, cut).trim();
+    this.buffer = this.buffer.slice(cut).replace(/^\s+/, "");
+    if (piece) this.enqueue(piece);
+  }
+
+  private schedule(): void {
+    if (this.timer || this.closed || !this.buffer.trim()) return;
+    const elapsed = Date.now() - this.lastFlush;
+    const hasBoundary = findFlushBoundary(this.buffer) > 0;
+    const delay = Math.max((hasBoundary ? this.minIntervalMs : this.maxIntervalMs) - elapsed, 0);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const before = this.sentCount;
+      this.tryFlush(Date.now() - this.lastFlush >= this.maxIntervalMs);
+      // If nothing could be flushed (e.g. an open code block), wait for more text
+      if (this.sentCount > before) this.schedule();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
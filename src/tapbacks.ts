@@ -0,0 +1,58 @@
+/**
+ * Tapback (iMessage reaction) parsing and formatting.
+ */
+
+export type TapbackKind = "love" | "like" | "dislike" | "laugh" | "emphasize" | "question";
+
+export interface Tapback {
+  kind: TapbackKind;
+  removed: boolean;
+}
+
+// BlueBubbles reports tapbacks either by name ("love", "-love") or by the
+// raw iMessage associated message type (2000-2005 add, 3000-3005 remove)
+const KINDS: TapbackKind[] = ["love", "like", "dislike", "laugh", "emphasize", "question"];
+
+const VERBS: Record<TapbackKind, string> = {
+  love: "loved",
+  like: "liked",
+  dislike: "disliked",
+  laugh: "laughed at",
+  emphasize: "emphasized",
+  question: "questioned",
+};
+
+export function parseTapback(type: string | number | null | undefined): Tapback | null {
+  if (type === null || type === undefined) return null;
+  const raw = String(type).trim().toLowerCase();
+  const code = Number(raw);
+  if (Number.isInteger(code)) {
+    if (code >= 2000 && code <= 2005) return { kind: KINDS[code - 2000], removed: false };
+    if (code >= 3000 && code <= 3005) return { kind: KINDS[code - 3000], removed: true };
+    return null;
+  }
+  const removed = raw.startsWith("-");
+  const name = raw.replace(/^[+-]/, "");
+  const kind = KINDS.find((k) => k === name);
+  return kind ? { kind, removed } : null;
+}
+
+// associatedMessageGuid is prefixed with the part index, e.g. "p:0/GUID" or "bp:GUID"
+export function stripAssociatedGuid(guid: string): string {
+  return guid.replace(/^(?:p:\d+\/|bp:)/, "");
+}
+
+// Human-readable description, e.g. `+1555 disliked "That's wrong"`
+export function describeTapback(sender: string, tapback: Tapback, targetText?: string): string {
+  const target = targetText ? `"${truncate(targetText, 200)}"` : "a message";
+  if (tapback.removed) {
+    return `${sender} removed their ${tapback.kind} reaction from ${target}`;
+  }
+  return `${sender} ${VERBS[tapback.kind]} ${target}`;
+}
+
+// Collapse whitespace and shorten to `max` characters for quoting
+export function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
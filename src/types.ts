@@ -81,10 +81,18 @@ export interface WOPRPluginContext {
   log: PluginLogger;
 }
 
+export interface PluginCommand {
+  name: string;
+  description: string;
+  usage?: string;
+  handler: (context: WOPRPluginContext, args: string[]) => Promise<void>;
+}
+
 export interface WOPRPlugin {
   name: string;
   version: string;
   description: string;
+  commands?: PluginCommand[];
   init?: (context: WOPRPluginContext) => Promise<void>;
   shutdown?: () => Promise<void>;
 }
@@ -106,6 +114,9 @@ export interface BBMessage {
   dateCreated: number;
   dateDelivered: number;
   dateRead: number;
+  // Set when the sender edited or unsent the message (iOS 16+)
+  dateEdited?: number | null;
+  dateRetracted?: number | null;
   isFromMe: boolean;
   isAudioMessage: boolean;
   itemType: number;
@@ -131,6 +142,20 @@ export interface BBHandle {
   originalROWID: number;
 }
 
+export interface BBContactAddress {
+  address: string;
+}
+
+export interface BBContact {
+  id?: string | number;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  nickname?: string;
+  phoneNumbers?: BBContactAddress[];
+  emails?: BBContactAddress[];
+}
+
 export interface BBAttachment {
   guid: string;
   uti: string;
@@ -159,6 +184,12 @@ export interface BBTypingNotification {
   guid: string;
 }
 
+export interface BBWebhook {
+  id: number;
+  url: string;
+  events: string[];
+}
+
 export interface BlueBubblesConfig {
   serverUrl?: string;
   password?: string;
@@ -166,9 +197,59 @@ export interface BlueBubblesConfig {
   allowFrom?: string[];
   groupPolicy?: "allowlist" | "open" | "disabled";
   groupAllowFrom?: string[];
+  groupActivation?: "always" | "mention";
   mediaMaxMb?: number;
+  authMode?: "header" | "query";
+  redactContacts?: boolean;
+  requestTimeoutMs?: number;
+  healthCheckIntervalMs?: number;
+  sendWaitMs?: number;
+  reconnectDelayMs?: number;
+  resolveContacts?: boolean;
+  contactsRefreshMinutes?: number;
+  contactNames?: Record<string, string>;
+  defaultCountry?: string;
+  injectGroupEvents?: boolean;
+  rerunOnEdit?: boolean;
+  quoteReplies?: boolean;
+  ingestMode?: "socket" | "webhook";
+  webhookHost?: string;
+  webhookPort?: number;
+  webhookPath?: string;
+  webhookSecret?: string;
+  webhookUrl?: string;
+  webhookAutoRegister?: boolean;
+  requestRetries?: number;
   sendReadReceipts?: boolean;
   enableReactions?: boolean;
   enableAttachments?: boolean;
+  sendAttachments?: boolean;
+  markdownMode?: "raw" | "plain" | "minimal";
+  textChunkLimit?: number;
+  smsChunkLimit?: number;
+  chunkPartMarkers?: boolean;
+  outboundMediaMaxMb?: number;
+  outboundMimeTypes?: string[];
+  injectTapbacks?: boolean;
+  catchUpOnReconnect?: boolean;
+  catchUpMaxAgeMinutes?: number;
+  dedupeWindowMinutes?: number;
+  dedupePersist?: boolean;
+  rateLimitEnabled?: boolean;
+  dmRateLimitPerMinute?: number;
+  groupSenderRateLimitPerMinute?: number;
+  groupChatRateLimitPerMinute?: number;
   commandPrefix?: string;
+  maxConcurrentChats?: number;
+  coalesceWindowMs?: number;
+  coalesceMaxWaitMs?: number;
+  commandPermissions?: Record<string, "anyone" | "owner">;
+  ownerHandles?: string[];
+  pairingCodeTtlMinutes?: number;
+  pairingMaxPending?: number;
+  enableTypingIndicator?: boolean;
+  typingIndicatorSms?: boolean;
+  streamResponses?: boolean;
+  streamMinIntervalMs?: number;
+  streamMaxIntervalMs?: number;
 }
@@ -0,0 +1,158 @@
+/**
+ * Webhook ingestion. An HTTP listener that accepts the events BlueBubbles
+ * POSTs to a registered webhook URL, for setups where the Socket.IO
+ * connection can't reach the server (NAT, proxies that break websockets).
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { BBMessage, BBTypingNotification } from "./types.js";
+
+export const WEBHOOK_EVENTS = ["new-message", "updated-message", "typing-indicator"];
+
+export interface WebhookServerOptions {
+  host?: string;
+  port?: number;
+  path?: string;
+  // Required as ?secret=, X-Webhook-Secret or a Bearer token. The listener
+  // won't start without one: an open listener would let anyone on the
+  // network post messages as any handle, owners included.
+  secret: string;
+  maxBodyBytes?: number;
+}
+
+export interface WebhookHandlers {
+  onNewMessage: (message: BBMessage) => void;
+  onUpdatedMessage: (message: BBMessage) => void;
+  onTyping: (notification: BBTypingNotification) => void;
+}
+
+interface WebhookPayload {
+  type?: string;
+  data?: unknown;
+}
+
+function secretsMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export class WebhookServer {
+  private server: Server | null = null;
+  private host: string;
+  private port: number;
+  private path: string;
+  private secret: string;
+  private maxBodyBytes: number;
+  private handlers: WebhookHandlers;
+
+  constructor(opts: WebhookServerOptions, handlers: WebhookHandlers) {
+    this.host = opts.host || "0.0.0.0";
+    this.port = opts.port ?? 8787;
+    this.path = opts.path || "/bluebubbles/webhook";
+    this.secret = opts.secret;
+    this.maxBodyBytes = opts.maxBodyBytes ?? 5 * 1024 * 1024;
+    this.handlers = handlers;
+  }
+
+  // Start listening; resolves with the bound port (useful when port is 0)
+  async start(): Promise<number> {
+    if (this.server) return this.boundPort();
+    if (!this.secret) throw new Error("A webhook secret is required");
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(() => this.respond(res, 500, "Internal error"));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    return this.boundPort();
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  isListening(): boolean {
+    return this.server?.listening ?? false;
+  }
+
+  private boundPort(): number {
+    const address = this.server?.address();
+    return typeof address === "object" && address ? address.port : this.port;
+  }
+
+  private authorized(req: IncomingMessage, url: URL): boolean {
+    const header = req.headers["x-webhook-secret"];
+    const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "")?.[1];
+    const given =
+      url.searchParams.get("secret") ?? (Array.isArray(header) ? header[0] : header) ?? bearer;
+    return !!given && secretsMatch(given, this.secret);
+  }
+
+  private respond(res: ServerResponse, status: number, message: string): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status, message }));
+  }
+
+  private readBody(req: IncomingMessage): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      // Keep draining an oversized body so the 413 reply can still be sent
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= this.maxBodyBytes) chunks.push(chunk);
+      });
+      req.on("end", () =>
+        resolve(size > this.maxBodyBytes ? null : Buffer.concat(chunks).toString("utf8")),
+      );
+      req.on("error", reject);
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== this.path) return this.respond(res, 404, "Not found");
+    if (req.method !== "POST") return this.respond(res, 405, "Method not allowed");
+    if (!this.authorized(req, url)) return this.respond(res, 401, "Unauthorized");
+
+    const body = await this.readBody(req);
+    if (body === null) return this.respond(res, 413, "Payload too large");
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(body) as WebhookPayload;
+    } catch {
+      return this.respond(res, 400, "Invalid JSON");
+    }
+    if (!payload || typeof payload.data !== "object" || payload.data === null) {
+      return this.respond(res, 400, "Missing event data");
+    }
+
+    // Acknowledge first; the handlers queue their own work
+    this.respond(res, 200, "OK");
+    switch (payload.type) {
+      case "new-message":
+        this.handlers.onNewMessage(payload.data as BBMessage);
+        break;
+      case "updated-message":
+        this.handlers.onUpdatedMessage(payload.data as BBMessage);
+        break;
+      case "typing-indicator":
+        this.handlers.onTyping(payload.data as BBTypingNotification);
+        break;
+      default:
+        // Other server events are accepted and ignored
+        break;
+    }
+  }
+}
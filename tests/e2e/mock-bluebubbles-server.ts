@@ -0,0 +1,294 @@
+/**
+ * A local stand-in for a BlueBubbles server: the REST API under /api/v1 and
+ * a Socket.IO server on the same port. Tests script inbound events with
+ * `deliver()` and inspect what the plugin sent through `requests` and
+ * `sentTexts`.
+ */
+
+import { randomUUID } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Server as SocketServer } from "socket.io";
+import type { BBAttachment, BBChat, BBContact, BBMessage, BBWebhook } from "../../src/types.js";
+
+export interface MockServerOptions {
+  password?: string;
+  privateApi?: boolean;
+  // Also accept the password in an Authorization header (or Socket.IO auth
+  // payload). BlueBubbles itself only reads it from the query string.
+  headerAuth?: boolean;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export interface SentText {
+  chatGuid: string;
+  message: string;
+  tempGuid?: string;
+  selectedMessageGuid?: string;
+}
+
+export interface SentAttachment {
+  chatGuid: string;
+  name: string;
+  data: Buffer;
+}
+
+interface StoredAttachment {
+  meta: BBAttachment;
+  data: Buffer;
+}
+
+const API_PREFIX = "/api/v1";
+
+export class MockBlueBubblesServer {
+  readonly password: string;
+  privateApi: boolean;
+  readonly headerAuth: boolean;
+  readonly requests: RecordedRequest[] = [];
+  readonly sentTexts: SentText[] = [];
+  readonly sentAttachments: SentAttachment[] = [];
+  contacts: BBContact[] = [];
+  // Every message the server knows about, per chat, oldest first
+  private history = new Map<string, BBMessage[]>();
+  private chats = new Map<string, BBChat>();
+  private attachments = new Map<string, StoredAttachment>();
+  private webhooks: BBWebhook[] = [];
+  private nextWebhookId = 1;
+  private http: Server | null = null;
+  private io: SocketServer | null = null;
+
+  constructor(opts: MockServerOptions = {}) {
+    this.password = opts.password ?? "mock-password";
+    this.privateApi = opts.privateApi ?? false;
+    this.headerAuth = opts.headerAuth ?? false;
+  }
+
+  // Start on a free port; resolves with the server URL
+  async start(): Promise<string> {
+    const http = createServer((req, res) => {
+      this.handle(req, res).catch((err) => this.json(res, 500, { message: String(err) }));
+    });
+    const io = new SocketServer(http);
+    io.use((socket, next) => {
+      const { query, auth } = socket.handshake;
+      const given = query.guid ?? query.password ?? (this.headerAuth ? auth?.password : undefined);
+      next(given === this.password ? undefined : new Error("Unauthorized"));
+    });
+    await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+    this.http = http;
+    this.io = io;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const io = this.io;
+    this.io = null;
+    this.http = null;
+    // Closes the underlying HTTP server too
+    await new Promise<void>((resolve) => (io ? io.close(() => resolve()) : resolve()));
+  }
+
+  get url(): string {
+    const address = this.http?.address() as AddressInfo | null;
+    if (!address) throw new Error("Mock server is not running");
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  get connectedSockets(): number {
+    return this.io?.of("/").sockets.size ?? 0;
+  }
+
+  // Drop every socket at the transport level, as a network blip would; the
+  // client sees "transport close" and reconnects on its own
+  dropConnections(): void {
+    for (const socket of this.io?.of("/").sockets.values() ?? []) socket.conn.close();
+  }
+
+  // Make a message known to the server (so catch-up can find it)
+  store(message: BBMessage): void {
+    const chat = message.chats[0];
+    const list = this.history.get(chat.guid) ?? [];
+    list.push(message);
+    this.history.set(chat.guid, list);
+    this.chats.set(chat.guid, { ...chat, lastMessage: message });
+  }
+
+  // Store a message and push it to connected clients
+  deliver(message: BBMessage): void {
+    this.store(message);
+    this.emit("new-message", message);
+  }
+
+  emit(event: string, data: unknown): void {
+    this.io?.emit(event, data);
+  }
+
+  addAttachment(meta: BBAttachment, data: Buffer): void {
+    this.attachments.set(meta.guid, { meta, data });
+  }
+
+  requestsTo(path: string | RegExp): RecordedRequest[] {
+    return this.requests.filter((r) =>
+      typeof path === "string" ? r.path === path : path.test(r.path),
+    );
+  }
+
+  private authorized(req: IncomingMessage, url: URL): boolean {
+    const given = url.searchParams.get("guid") ?? url.searchParams.get("password");
+    if (given === this.password) return true;
+    if (!this.headerAuth) return false;
+    return /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "")?.[1] === this.password;
+  }
+
+  private json(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status, message: status < 400 ? "Success" : "Error", ...body }));
+  }
+
+  private privateApiRequired(res: ServerResponse): void {
+    this.json(res, 400, {
+      message: "Error",
+      error: { type: "iMessage Error", error: "iMessage Private API is not enabled!" },
+    });
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  }
+
+  private async parseBody(req: IncomingMessage, raw: Buffer): Promise<unknown> {
+    const type = req.headers["content-type"] || "";
+    if (type.startsWith("multipart/form-data")) {
+      const form = await new Request("http://mock/", {
+        method: "POST",
+        headers: { "content-type": type },
+        body: raw,
+      }).formData();
+      return form;
+    }
+    if (raw.length === 0) return undefined;
+    return JSON.parse(raw.toString("utf8"));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://mock");
+    if (!url.pathname.startsWith(API_PREFIX)) return this.json(res, 404, {});
+    const path = decodeURIComponent(url.pathname.slice(API_PREFIX.length));
+    const method = req.method || "GET";
+    const body = await this.parseBody(req, await this.readBody(req));
+    this.requests.push({ method, path, body });
+
+    if (!this.authorized(req, url)) {
+      return this.json(res, 401, { error: { type: "Unauthorized", error: "Unauthorized" } });
+    }
+
+    const route = `${method} ${path}`;
+    if (route === "GET /ping") return this.json(res, 200, { data: "pong" });
+    if (route === "GET /server/info") {
+      return this.json(res, 200, { data: { private_api: this.privateApi } });
+    }
+    if (route === "GET /contact") return this.json(res, 200, { data: this.contacts });
+    if (route === "POST /message/text") return this.sendText(res, body as SentText);
+    if (route === "POST /message/attachment") {
+      return this.sendAttachment(res, body as FormData);
+    }
+    if (route === "POST /message/react") {
+      if (!this.privateApi) return this.privateApiRequired(res);
+      return this.json(res, 200, { data: { guid: randomUUID() } });
+    }
+    if (route === "POST /chat/query") {
+      const { limit = 50, offset = 0 } = (body ?? {}) as { limit?: number; offset?: number };
+      const chats = [...this.chats.values()].sort(
+        (a, b) => (b.lastMessage?.dateCreated ?? 0) - (a.lastMessage?.dateCreated ?? 0),
+      );
+      return this.json(res, 200, { data: chats.slice(offset, offset + limit) });
+    }
+    if (route === "POST /message/query") {
+      const { chatGuid, limit = 50, after = 0 } = body as {
+        chatGuid: string;
+        limit?: number;
+        after?: number;
+      };
+      const messages = (this.history.get(chatGuid) ?? []).filter((m) => m.dateCreated > after);
+      return this.json(res, 200, { data: messages.slice(0, limit) });
+    }
+    if (route === "GET /webhook") return this.json(res, 200, { data: this.webhooks });
+    if (route === "POST /webhook") {
+      const { url: target, events } = body as { url: string; events: string[] };
+      const webhook = { id: this.nextWebhookId++, url: target, events };
+      this.webhooks.push(webhook);
+      return this.json(res, 200, { data: webhook });
+    }
+
+    let match = /^\/chat\/([^/]+)\/(typing|read)$/.exec(path);
+    if (match && (method === "POST" || method === "DELETE")) {
+      if (!this.privateApi) return this.privateApiRequired(res);
+      return this.json(res, 200, {});
+    }
+    match = /^\/message\/([^/]+)$/.exec(path);
+    if (match && method === "GET") {
+      const guid = match[1];
+      const message = [...this.history.values()].flat().find((m) => m.guid === guid);
+      if (!message) return this.json(res, 404, { message: "Message does not exist" });
+      return this.json(res, 200, { data: message });
+    }
+    match = /^\/attachment\/([^/]+)(\/download)?$/.exec(path);
+    if (match && method === "GET") {
+      const stored = this.attachments.get(match[1]);
+      if (!stored) return this.json(res, 404, { message: "Attachment does not exist" });
+      if (!match[2]) return this.json(res, 200, { data: stored.meta });
+      res.writeHead(200, {
+        "Content-Type": stored.meta.mimeType || "application/octet-stream",
+        "Content-Length": String(stored.data.length),
+      });
+      res.end(stored.data);
+      return;
+    }
+    match = /^\/webhook\/(\d+)$/.exec(path);
+    if (match && method === "DELETE") {
+      this.webhooks = this.webhooks.filter((w) => w.id !== Number(match?.[1]));
+      return this.json(res, 200, {});
+    }
+    this.json(res, 404, { message: `No route for ${route}` });
+  }
+
+  private sendText(res: ServerResponse, body: SentText): void {
+    this.sentTexts.push(body);
+    const message = this.outgoing(body.chatGuid, body.message);
+    this.json(res, 200, { data: message });
+  }
+
+  private async sendAttachment(res: ServerResponse, form: FormData): Promise<void> {
+    const chatGuid = String(form.get("chatGuid"));
+    const file = form.get("attachment");
+    if (!(file instanceof Blob)) return this.json(res, 400, { message: "Missing attachment" });
+    this.sentAttachments.push({
+      chatGuid,
+      name: String(form.get("name")),
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+    this.json(res, 200, { data: this.outgoing(chatGuid, "\ufffc") });
+  }
+
+  // Record one of our own messages in the chat history
+  private outgoing(chatGuid: string, text: string): BBMessage {
+    const chat = this.chats.get(chatGuid);
+    const message = {
+      guid: randomUUID(),
+      text,
+      isFromMe: true,
+      dateCreated: Date.now(),
+      chats: chat ? [chat] : [],
+    } as unknown as BBMessage;
+    if (chat) this.store(message);
+    return message;
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * End-to-end tests: the real plugin, client, Socket.IO and fetch against the
+ * local mock BlueBubbles server. Nothing is mocked at the module level.
+ */
+
+import { mkdtempSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import plugin, { getConnectionStatus, onConnectionStateChange } from "../../src/index.js";
+import type { BBAttachment, BBMessage } from "../../src/types.js";
+import { MockBlueBubblesServer } from "./mock-bluebubbles-server.js";
+
+const CHAT_GUID = "iMessage;-;+15551234567";
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64",
+);
+
+const tmpDirs: string[] = [];
+let previousHome: string | undefined;
+
+beforeAll(() => {
+  // Keep the plugin's log files out of the real WOPR home
+  previousHome = process.env.WOPR_HOME;
+  process.env.WOPR_HOME = tempDir();
+});
+
+afterAll(async () => {
+  if (previousHome === undefined) delete process.env.WOPR_HOME;
+  else process.env.WOPR_HOME = previousHome;
+  await Promise.all(tmpDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+function tempDir(): string {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "bb-e2e-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function makeCtx(server: MockBlueBubblesServer, configOverrides: Record<string, unknown> = {}) {
+  const config = {
+    serverUrl: server.url,
+    password: server.password,
+    dmPolicy: "open",
+    groupPolicy: "open",
+    requestRetries: 0,
+    requestTimeoutMs: 2000,
+    healthCheckIntervalMs: 0,
+    reconnectDelayMs: 50,
+    ...configOverrides,
+  };
+  const pluginDir = tempDir();
+  return {
+    inject: vi.fn().mockResolvedValue("Hi from the agent"),
+    logMessage: vi.fn(),
+    injectPeer: vi.fn(),
+    getIdentity: vi.fn().mockReturnValue({ publicKey: "pk", shortId: "sid", encryptPub: "ep" }),
+    getAgentIdentity: vi.fn().mockResolvedValue({ name: "TestBot" }),
+    getUserProfile: vi.fn().mockResolvedValue({}),
+    getSessions: vi.fn().mockReturnValue([]),
+    getPeers: vi.fn().mockReturnValue([]),
+    getConfig: vi.fn().mockReturnValue(config),
+    saveConfig: vi.fn().mockResolvedValue(undefined),
+    getMainConfig: vi.fn().mockReturnValue(undefined),
+    registerConfigSchema: vi.fn(),
+    getPluginDir: vi.fn().mockReturnValue(pluginDir),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  };
+}
+
+let messageSeq = 0;
+
+function makeMessage(overrides: Partial<BBMessage> = {}): BBMessage {
+  messageSeq++;
+  return {
+    guid: `e2e-msg-${messageSeq}`,
+    text: `Message ${messageSeq}`,
+    subject: "",
+    handle: { address: "+15551234567", country: "us", service: "iMessage", originalROWID: 1 },
+    handleId: 1,
+    chats: [
+      {
+        guid: CHAT_GUID,
+        chatIdentifier: "+15551234567",
+        groupId: "",
+        displayName: "",
+        participants: [],
+      },
+    ],
+    attachments: [],
+    associatedMessageGuid: null,
+    associatedMessageType: null,
+    replyToGuid: null,
+    threadOriginatorGuid: null,
+    dateCreated: Date.now() + messageSeq,
+    dateDelivered: 0,
+    dateRead: 0,
+    isFromMe: false,
+    isAudioMessage: false,
+    itemType: 0,
+    groupActionType: 0,
+    groupTitle: "",
+    error: 0,
+    partCount: 1,
+    ...overrides,
+  } as BBMessage;
+}
+
+function makeAttachment(guid: string, overrides: Partial<BBAttachment> = {}): BBAttachment {
+  return {
+    guid,
+    uti: "public.png",
+    mimeType: "image/png",
+    transferName: `${guid}.png`,
+    totalBytes: PNG.length,
+    transferState: 5,
+    isOutgoing: false,
+    height: 1,
+    width: 1,
+    ...overrides,
+  };
+}
+
+describe("plugin against a mock BlueBubbles server", () => {
+  let server: MockBlueBubblesServer;
+
+  async function startPlugin(
+    serverOpts: { privateApi?: boolean; headerAuth?: boolean } = {},
+    configOverrides: Record<string, unknown> = {},
+  ) {
+    server = new MockBlueBubblesServer(serverOpts);
+    await server.start();
+    const ctx = makeCtx(server, configOverrides);
+    await plugin.init?.(ctx as never);
+    await vi.waitFor(() => expect(server.connectedSockets).toBe(1));
+    return ctx;
+  }
+
+  afterEach(async () => {
+    await plugin.shutdown?.();
+    await server?.stop();
+  });
+
+  it("answers an inbound message through inject and sendText", async () => {
+    const ctx = await startPlugin();
+    expect(getConnectionStatus().state).toBe("connected");
+
+    const message = makeMessage({ text: "Hello bot" });
+    server.deliver(message);
+
+    await vi.waitFor(() => expect(server.sentTexts).toHaveLength(1));
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.stringContaining(CHAT_GUID),
+      "[+15551234567]: Hello bot",
+      expect.objectContaining({ from: "+15551234567" }),
+    );
+    expect(server.sentTexts[0]).toMatchObject({
+      chatGuid: CHAT_GUID,
+      message: "Hi from the agent",
+      selectedMessageGuid: message.guid,
+    });
+  });
+
+  it("sends reactions, typing and read receipts only when the Private API is on", async () => {
+    await startPlugin({ privateApi: true }, { enableReactions: true, sendReadReceipts: true });
+    server.deliver(makeMessage());
+
+    await vi.waitFor(() => expect(server.requestsTo(`/chat/${CHAT_GUID}/read`)).toHaveLength(1));
+    expect(server.requestsTo("/message/react")).toHaveLength(1);
+    expect(server.requestsTo(`/chat/${CHAT_GUID}/typing`).length).toBeGreaterThan(0);
+  });
+
+  it("skips Private API calls when the server has it disabled", async () => {
+    await startPlugin({ privateApi: false }, { enableReactions: true, sendReadReceipts: true });
+    server.deliver(makeMessage());
+
+    await vi.waitFor(() => expect(server.sentTexts).toHaveLength(1));
+    expect(server.requestsTo("/message/react")).toHaveLength(0);
+    expect(server.requestsTo(/^\/chat\/.+\/(typing|read)$/)).toHaveLength(0);
+  });
+
+  it("downloads attachments within the size limit and refuses larger ones", async () => {
+    // 10KB limit
+    const ctx = await startPlugin({}, { mediaMaxMb: 10 / 1024 });
+    const big = Buffer.alloc(20 * 1024, 1);
+    server.addAttachment(makeAttachment("small"), PNG);
+    server.addAttachment(makeAttachment("honest-big", { totalBytes: big.length }), big);
+    // Reports a small size but serves more than the limit
+    server.addAttachment(makeAttachment("lying-big"), big);
+
+    server.deliver(makeMessage({ text: "pic", attachments: [makeAttachment("small")] }));
+    await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalledTimes(1));
+    const opts = ctx.inject.mock.calls[0][2];
+    expect(opts.images).toEqual([`data:image/png;base64,${PNG.toString("base64")}`]);
+
+    server.deliver(
+      makeMessage({
+        text: "big",
+        attachments: [makeAttachment("honest-big", { totalBytes: big.length })],
+      }),
+    );
+    await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalledTimes(2));
+    expect(server.requestsTo("/attachment/honest-big/download")).toHaveLength(0);
+
+    server.deliver(makeMessage({ text: "", attachments: [makeAttachment("lying-big")] }));
+    await vi.waitFor(() =>
+      expect(server.sentTexts.map((t) => t.message)).toContain(
+        'Sorry, I couldn\'t download the attachment "lying-big.png".',
+      ),
+    );
+    expect(server.requestsTo("/attachment/lying-big/download")).toHaveLength(1);
+    expect(ctx.inject).toHaveBeenCalledTimes(2);
+  });
+
+  it("uploads attachments referenced in a reply", async () => {
+    const ctx = await startPlugin({}, { sendAttachments: true });
+    const dataUri = `data:image/png;base64,${PNG.toString("base64")}`;
+    ctx.inject.mockResolvedValue(`Here you go ![chart](${dataUri})`);
+
+    server.deliver(makeMessage());
+
+    await vi.waitFor(() => expect(server.sentAttachments).toHaveLength(1));
+    expect(server.sentAttachments[0].chatGuid).toBe(CHAT_GUID);
+    expect(server.sentAttachments[0].data.equals(PNG)).toBe(true);
+    expect(server.sentTexts[0].message).toBe("Here you go");
+  });
+
+  it("reconnects after a dropped connection and catches up on missed messages", async () => {
+    const ctx = await startPlugin();
+    const states: string[] = [];
+    const unsubscribe = onConnectionStateChange((status) => states.push(status.state));
+
+    server.deliver(makeMessage({ text: "before" }));
+    await vi.waitFor(() => expect(server.sentTexts).toHaveLength(1));
+
+    // Arrives while the socket is down, so only catch-up can find it
+    server.store(makeMessage({ text: "while offline" }));
+    server.dropConnections();
+
+    await vi.waitFor(() => expect(states).toEqual(["reconnecting", "connected"]));
+    await vi.waitFor(() => expect(server.sentTexts).toHaveLength(2));
+    expect(ctx.inject).toHaveBeenLastCalledWith(
+      expect.any(String),
+      "[+15551234567]: while offline",
+      expect.anything(),
+    );
+
+    server.deliver(makeMessage({ text: "after" }));
+    await vi.waitFor(() => expect(server.sentTexts).toHaveLength(3));
+    unsubscribe();
+  });
+
+  it("quotes the original message of an inline reply, fetched from the server", async () => {
+    const ctx = await startPlugin();
+    const original = makeMessage({
+      text: "Pick one: red or blue?",
+      handle: { address: "bob@example.com", country: "us", service: "iMessage", originalROWID: 2 },
+    });
+    server.store(original);
+
+    server.deliver(makeMessage({ text: "blue", threadOriginatorGuid: original.guid }));
+
+    await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalledTimes(1));
+    expect(ctx.inject.mock.calls[0][1]).toBe(
+      '[+15551234567]: (replying to bob@example.com: "Pick one: red or blue?") blue',
+    );
+    expect(server.requestsTo(`/message/${original.guid}`)).toHaveLength(1);
+  });
+
+  it("connects by default to a server that only reads the password from the query", async () => {
+    await startPlugin();
+    expect(getConnectionStatus().state).toBe("connected");
+  });
+
+  it("connects in header auth mode to a server that accepts the header", async () => {
+    await startPlugin({ headerAuth: true }, { authMode: "header" });
+    expect(getConnectionStatus().state).toBe("connected");
+  });
+
+  it("does not connect in header auth mode to a server that only reads the query", async () => {
+    server = new MockBlueBubblesServer();
+    await server.start();
+    await plugin.init?.(makeCtx(server, { authMode: "header" }) as never);
+
+    expect(server.connectedSockets).toBe(0);
+    expect(getConnectionStatus().state).toBe("stopped");
+  });
+
+  it("does not connect with the wrong password", async () => {
+    server = new MockBlueBubblesServer();
+    await server.start();
+    const ctx = makeCtx(server, { password: "wrong" });
+    await plugin.init?.(ctx as never);
+
+    expect(server.requestsTo("/ping")).toHaveLength(1);
+    expect(server.connectedSockets).toBe(0);
+    expect(getConnectionStatus().state).toBe("stopped");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  inlineImageType,
+  sanitizePathSegment,
+  saveAttachment,
+  sessionAttachmentDir,
+  toDataUri,
+} from "../../src/attachments.js";
+
+function makeAttachment(overrides: Record<string, unknown> = {}) {
+  return {
+    guid: "att-1",
+    uti: "public.jpeg",
+    mimeType: "image/jpeg",
+    transferName: "photo.jpg",
+    totalBytes: 3,
+    transferState: 5,
+    isOutgoing: false,
+    height: 1,
+    width: 1,
+    ...overrides,
+  };
+}
+
+describe("inlineImageType()", () => {
+  const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+
+  it("detects JPEG, PNG, GIF and WebP from their leading bytes", () => {
+    expect(inlineImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(inlineImageType(PNG)).toBe("image/png");
+    expect(inlineImageType(Buffer.from("GIF89a..."))).toBe("image/gif");
+    expect(inlineImageType(Buffer.from("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+  });
+
+  it("returns null for HEIC and other files", () => {
+    expect(inlineImageType(Buffer.from("\0\0\0\x18ftypheic\0\0\0\0"))).toBeNull();
+    expect(inlineImageType(Buffer.from("%PDF-1.7"))).toBeNull();
+    expect(inlineImageType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe("toDataUri()", () => {
+  it("base64-encodes the buffer with the MIME type", () => {
+    expect(toDataUri(Buffer.from("abc"), "image/png")).toBe("data:image/png;base64,YWJj");
+  });
+});
+
+describe("sanitizePathSegment()", () => {
+  it("removes path separators and leading dots", () => {
+    expect(sanitizePathSegment("../../etc/passwd")).toBe("_.._etc_passwd");
+    expect(sanitizePathSegment("bluebubbles-iMessage;-;+1555")).toBe("bluebubbles-iMessage_-_+1555");
+  });
+
+  it("never returns an empty segment", () => {
+    expect(sanitizePathSegment("...")).toBe("attachment");
+  });
+});
+
+describe("saveAttachment()", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes the file into the per-session directory", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "bb-att-"));
+    const sessionDir = sessionAttachmentDir(dir, "bluebubbles-iMessage;-;+1555");
+    const filePath = await saveAttachment(
+      sessionDir,
+      makeAttachment({ transferName: "report.pdf" }),
+      Buffer.from("pdf"),
+    );
+
+    expect(filePath).toBe(path.join(dir, "attachments", "bluebubbles-iMessage_-_+1555", "att-1-report.pdf"));
+    expect(await readFile(filePath, "utf8")).toBe("pdf");
+  });
+});
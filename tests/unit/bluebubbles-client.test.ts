@@ -16,6 +16,14 @@ vi.mock("socket.io-client", () => {
 
 import { io } from "socket.io-client";
 import { BlueBubblesClient } from "../../src/bluebubbles-client.js";
+import {
+  BlueBubblesAuthError,
+  BlueBubblesNetworkError,
+  BlueBubblesPrivateApiError,
+  BlueBubblesRateLimitError,
+  BlueBubblesServerError,
+  BlueBubblesTimeoutError,
+} from "../../src/errors.js";
 
 const mockIo = vi.mocked(io);
 
@@ -37,7 +45,7 @@ describe("BlueBubblesClient", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    client = new BlueBubblesClient(serverUrl, password);
+    client = new BlueBubblesClient(serverUrl, password, { retryBaseMs: 1, retryMaxMs: 4 });
     mockFetch = vi.fn();
     globalThis.fetch = mockFetch;
   });
@@ -62,7 +70,7 @@ describe("BlueBubblesClient", () => {
   });
 
   describe("connect()", () => {
-    it("calls io() with the correct URL and query params", async () => {
+    it("calls io() with the correct URL and auth payload", async () => {
       // Simulate the connect event being fired
       const connectSpy = vi.fn();
       const mockSocket = {
@@ -84,10 +92,33 @@ describe("BlueBubblesClient", () => {
           query: { guid: password },
           transports: expect.arrayContaining(["websocket"]),
           reconnection: true,
+          reconnectionDelay: 5000,
         })
       );
     });
 
+    it("sends the password in a header in header auth mode", async () => {
+      const c = new BlueBubblesClient(serverUrl, password, { authMode: "header" });
+      const mockSocket = {
+        on: vi.fn().mockImplementation((event: string, handler: () => void) => {
+          if (event === "connect") setTimeout(handler, 0);
+        }),
+        disconnect: vi.fn(),
+        removeAllListeners: vi.fn(),
+      };
+      mockIo.mockReturnValueOnce(mockSocket as any);
+
+      await c.connect();
+
+      const opts = mockIo.mock.calls[0][1];
+      expect(opts).toMatchObject({
+        auth: { password },
+        extraHeaders: { Authorization: `Bearer ${password}` },
+      });
+      expect(opts).not.toHaveProperty("query");
+      c.disconnect();
+    });
+
     it("registers new-message, updated-message, and typing-indicator event listeners", async () => {
       const mockSocket = {
         on: vi.fn().mockImplementation((event: string, handler: () => void) => {
@@ -109,6 +140,34 @@ describe("BlueBubblesClient", () => {
     });
   });
 
+  describe("setOnConnect()", () => {
+    it("calls the handler on every connect event", async () => {
+      const connectHandlers: Array<() => void> = [];
+      const mockSocket = {
+        on: vi.fn().mockImplementation((event: string, handler: () => void) => {
+          if (event === "connect") {
+            connectHandlers.push(handler);
+            setTimeout(handler, 0);
+          }
+        }),
+        emit: vi.fn(),
+        disconnect: vi.fn(),
+        removeAllListeners: vi.fn(),
+        connected: true,
+      };
+      mockIo.mockReturnValueOnce(mockSocket as any);
+      const onConnect = vi.fn();
+      client.setOnConnect(onConnect);
+
+      await client.connect();
+      expect(onConnect).toHaveBeenCalledTimes(1);
+
+      // Simulate a reconnect
+      for (const handler of connectHandlers) handler();
+      expect(onConnect).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("disconnect()", () => {
     it("calls socket.disconnect() and removeAllListeners()", async () => {
       const mockSocket = {
@@ -136,22 +195,38 @@ describe("BlueBubblesClient", () => {
   });
 
   describe("ping()", () => {
-    it("calls fetch with correct URL including password and returns true for status 200", async () => {
+    it("sends the password as a query parameter and returns true for status 200", async () => {
       mockFetch.mockResolvedValueOnce({
         json: async () => ({ status: 200, message: "pong" }),
       });
 
       const result = await client.ping();
 
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(`${serverUrl}/api/v1/ping?password=${encodeURIComponent(password)}`);
+      expect(init).toMatchObject({ method: "GET" });
+      expect(init.headers).not.toHaveProperty("Authorization");
+      expect(result).toBe(true);
+    });
+
+    it("sends the password in a header, not the URL, in header auth mode", async () => {
+      const c = new BlueBubblesClient(serverUrl, password, { authMode: "header" });
+      mockFetch.mockResolvedValueOnce({
+        json: async () => ({ status: 200, message: "pong" }),
+      });
+
+      await c.ping();
+
       expect(mockFetch).toHaveBeenCalledWith(
-        `${serverUrl}/api/v1/ping?password=${encodeURIComponent(password)}`,
-        expect.objectContaining({ method: "GET" })
+        `${serverUrl}/api/v1/ping`,
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: `Bearer ${password}` }),
+        })
       );
-      expect(result).toBe(true);
     });
 
     it("returns false for non-200 status", async () => {
-      mockFetch.mockResolvedValueOnce({
+      mockFetch.mockResolvedValue({
         json: async () => ({ status: 500, message: "error" }),
       });
 
@@ -231,7 +306,8 @@ describe("BlueBubblesClient", () => {
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining(
           `/api/v1/attachment/${encodeURIComponent("attachment-guid-123")}/download`
-        )
+        ),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
       );
       expect(result).toBeInstanceOf(Buffer);
       expect(result.length).toBe(4);
@@ -248,6 +324,42 @@ describe("BlueBubblesClient", () => {
         "Attachment download failed"
       );
     });
+
+    it("enforces a caller-supplied size limit", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        arrayBuffer: async () => new Uint8Array(2048).buffer,
+      });
+
+      await expect(client.downloadAttachment("guid", 1024)).rejects.toThrow(
+        "Attachment exceeds 0.00098MB size limit"
+      );
+    });
+  });
+
+  describe("getMessage()", () => {
+    it("fetches one message with its chat and sender", async () => {
+      mockFetch.mockResolvedValueOnce({
+        json: async () => ({ status: 200, data: { guid: "msg/1", text: "hi" } }),
+      });
+
+      const res = await client.getMessage("msg/1");
+
+      // The password is appended to the existing query
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${serverUrl}/api/v1/message/${encodeURIComponent("msg/1")}?with=chats,handle&password=${encodeURIComponent(password)}`,
+      );
+      expect(res.data?.text).toBe("hi");
+    });
+
+    it("leaves the query alone in header auth mode", async () => {
+      const c = new BlueBubblesClient(serverUrl, password, { authMode: "header" });
+      mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
+
+      await c.getMessage("m1");
+
+      expect(mockFetch.mock.calls[0][0]).toBe(`${serverUrl}/api/v1/message/m1?with=chats,handle`);
+    });
   });
 
   describe("getServerInfo()", () => {
@@ -266,6 +378,35 @@ describe("BlueBubblesClient", () => {
     });
   });
 
+  describe("startTyping() / stopTyping()", () => {
+    it("POSTs and DELETEs /api/v1/chat/:guid/typing", async () => {
+      mockFetch.mockResolvedValue({ json: async () => ({ status: 200 }) });
+
+      await client.startTyping("iMessage;-;+15551234567");
+      await client.stopTyping("iMessage;-;+15551234567");
+
+      const path = `/api/v1/chat/${encodeURIComponent("iMessage;-;+15551234567")}/typing`;
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining(path),
+        expect.objectContaining({ method: "POST" })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining(path),
+        expect.objectContaining({ method: "DELETE" })
+      );
+    });
+
+    it("does not retry, since the indicator is cosmetic", async () => {
+      mockFetch.mockResolvedValue({ json: async () => ({ status: 503 }) });
+
+      await expect(client.startTyping("iMessage;-;+15551234567")).rejects.toThrow();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("markChatRead()", () => {
     it("calls POST /api/v1/chat/:guid/read", async () => {
       mockFetch.mockResolvedValueOnce({
@@ -282,4 +423,218 @@ describe("BlueBubblesClient", () => {
       );
     });
   });
+
+  describe("errors and retries", () => {
+    function reply(status: number, body: Record<string, unknown>, headers: Record<string, string> = {}) {
+      return {
+        ok: status < 400,
+        status,
+        headers: new Headers(headers),
+        json: async () => ({ status, ...body }),
+      };
+    }
+
+    it("throws an auth error on 401", async () => {
+      mockFetch.mockResolvedValue(reply(401, { message: "Unauthorized", error: { type: "Unauthorized" } }));
+
+      const err = await client.getServerInfo().catch((e) => e);
+      expect(err).toBeInstanceOf(BlueBubblesAuthError);
+      expect(err.kind).toBe("auth");
+      expect(err.type).toBe("Unauthorized");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("recognises Private API errors", async () => {
+      mockFetch.mockResolvedValue(
+        reply(400, { error: { type: "Validation Error", error: "iMessage Private API is not enabled" } }),
+      );
+
+      await expect(client.startTyping("iMessage;-;+1555")).rejects.toBeInstanceOf(
+        BlueBubblesPrivateApiError,
+      );
+    });
+
+    it("does not retry 4xx errors", async () => {
+      mockFetch.mockResolvedValue(reply(404, { message: "Not found" }));
+
+      const err = await client.getAttachmentMeta("missing").catch((e) => e);
+      expect(err).toBeInstanceOf(BlueBubblesServerError);
+      expect(err.retryable).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries idempotent calls after server errors", async () => {
+      mockFetch
+        .mockResolvedValueOnce(reply(503, { message: "Unavailable" }))
+        .mockResolvedValueOnce(reply(200, { data: { private_api: true } }));
+
+      const res = await client.getServerInfo();
+      expect(res.data?.private_api).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after the configured number of retries", async () => {
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(client.getChats()).rejects.toBeInstanceOf(BlueBubblesNetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("honours Retry-After on 429", async () => {
+      mockFetch
+        .mockResolvedValueOnce(reply(429, { message: "Slow down" }, { "Retry-After": "0" }))
+        .mockResolvedValueOnce(reply(200, { data: [] }));
+
+      await client.getChats();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("reports the retry-after delay on rate-limit errors", async () => {
+      const c = new BlueBubblesClient(serverUrl, password, { retries: 0 });
+      mockFetch.mockResolvedValue(reply(429, { message: "Slow down" }, { "Retry-After": "2" }));
+
+      const err = await c.getChats().catch((e) => e);
+      expect(err).toBeInstanceOf(BlueBubblesRateLimitError);
+      expect(err.retryAfterMs).toBe(2000);
+    });
+
+    it("does not retry non-idempotent calls", async () => {
+      mockFetch.mockResolvedValue(reply(500, { message: "boom" }));
+
+      await expect(client.sendReaction("chat", "msg", "love")).rejects.toBeInstanceOf(
+        BlueBubblesServerError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("reuses the same tempGuid when retrying sendText", async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(reply(200, { data: { guid: "sent" } }));
+
+      const res = await client.sendText("iMessage;-;+1555", "Hello");
+
+      expect(res.data?.guid).toBe("sent");
+      const guids = mockFetch.mock.calls.map((call: any[]) => JSON.parse(call[1].body).tempGuid);
+      expect(guids).toHaveLength(2);
+      expect(guids[0]).toBe(guids[1]);
+    });
+
+    it("times out hung requests", async () => {
+      const c = new BlueBubblesClient(serverUrl, password, { timeoutMs: 20, retries: 0 });
+      mockFetch.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+          }),
+      );
+
+      const err = await c.getServerInfo().catch((e) => e);
+      expect(err).toBeInstanceOf(BlueBubblesTimeoutError);
+      expect(err.kind).toBe("timeout");
+    });
+  });
+
+  describe("connection state", () => {
+    function makeSocket() {
+      const handlers = new Map<string, Array<(...args: any[]) => void>>();
+      const socket = {
+        on: vi.fn().mockImplementation((event: string, handler: (...args: any[]) => void) => {
+          handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+        }),
+        emit: vi.fn(),
+        disconnect: vi.fn(),
+        removeAllListeners: vi.fn(),
+        connected: false,
+        fire(event: string, ...args: any[]) {
+          for (const handler of handlers.get(event) ?? []) handler(...args);
+        },
+      };
+      mockIo.mockReturnValueOnce(socket as any);
+      return socket;
+    }
+
+    it("starts stopped and moves through connecting, connected, reconnecting", async () => {
+      const socket = makeSocket();
+      const changes: string[] = [];
+      client.setOnStateChange((status, previous) => changes.push(`${previous}->${status.state}`));
+      expect(client.getStatus().state).toBe("stopped");
+
+      const connecting = client.connect();
+      expect(client.getStatus().state).toBe("connecting");
+      socket.connected = true;
+      socket.fire("connect");
+      await connecting;
+
+      socket.connected = false;
+      socket.fire("disconnect", "transport close");
+      socket.fire("connect_error", new Error("ECONNREFUSED"));
+      socket.fire("connect_error", new Error("ECONNREFUSED"));
+      expect(client.getStatus()).toMatchObject({
+        state: "reconnecting",
+        reconnectAttempts: 2,
+        lastError: "ECONNREFUSED",
+      });
+
+      socket.connected = true;
+      socket.fire("connect");
+      expect(client.getStatus().reconnectAttempts).toBe(0);
+
+      client.disconnect();
+      expect(changes).toEqual([
+        "stopped->connecting",
+        "connecting->connected",
+        "connected->reconnecting",
+        "reconnecting->connected",
+        "connected->stopped",
+      ]);
+    });
+
+    it("records the time of the last inbound event", async () => {
+      const socket = makeSocket();
+      const connecting = client.connect();
+      socket.fire("connect");
+      await connecting;
+      expect(client.getStatus().lastEventAt).toBeNull();
+
+      socket.fire("new-message", { guid: "m1" });
+      expect(client.getStatus().lastEventAt).toEqual(expect.any(Number));
+      client.disconnect();
+    });
+
+    it("degrades on a failed health check and recovers on the next good one", async () => {
+      const changes: string[] = [];
+      client.setOnStateChange((status) => changes.push(status.state));
+      client.monitor();
+
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+      await client.checkHealth();
+      expect(client.getStatus().state).toBe("degraded");
+      expect(client.getStatus().lastPingAt).toEqual(expect.any(Number));
+
+      mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) });
+      await client.checkHealth();
+      expect(changes).toEqual(["connected", "degraded", "connected"]);
+      client.disconnect();
+    });
+
+    it("runs health checks on an interval until disconnected", async () => {
+      vi.useFakeTimers();
+      try {
+        const c = new BlueBubblesClient(serverUrl, password, { healthCheckIntervalMs: 1000 });
+        mockFetch.mockResolvedValue({ json: async () => ({ status: 200, message: "pong" }) });
+        c.monitor();
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+
+        c.disconnect();
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
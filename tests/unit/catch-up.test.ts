@@ -0,0 +1,149 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { CursorStore, runCatchUp } from "../../src/catch-up.js";
+
+const NOW = 1_700_000_000_000;
+const MINUTE = 60 * 1000;
+
+function msg(guid: string, dateCreated: number, overrides: Record<string, unknown> = {}) {
+  return { guid, dateCreated, isFromMe: false, chats: [], text: guid, ...overrides } as any;
+}
+
+function chat(guid: string, lastDate: number) {
+  return { guid, lastMessage: { dateCreated: lastDate } } as any;
+}
+
+describe("CursorStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "bb-cursor-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("only moves cursors forward and persists them", async () => {
+    const file = path.join(dir, "cursors.json");
+    const store = new CursorStore(file);
+    await store.advance("chat-a", 200);
+    await store.advance("chat-a", 100);
+    await store.advance("chat-b", 150);
+
+    const reloaded = new CursorStore(file);
+    await reloaded.load();
+    expect(reloaded.get("chat-a")).toBe(200);
+    expect(reloaded.get("chat-b")).toBe(150);
+    expect(reloaded.global).toBe(200);
+  });
+
+  it("keeps saving after a failed write", async () => {
+    // A file where the parent directory should be makes the first write fail
+    const blocker = path.join(dir, "state");
+    await writeFile(blocker, "");
+    const file = path.join(blocker, "cursors.json");
+    const store = new CursorStore(file);
+
+    await expect(store.advance("chat-a", 100)).rejects.toThrow();
+    await rm(blocker);
+    await store.advance("chat-a", 200);
+
+    const reloaded = new CursorStore(file);
+    await reloaded.load();
+    expect(reloaded.get("chat-a")).toBe(200);
+  });
+});
+
+describe("runCatchUp()", () => {
+  let dir: string;
+  let cursors: CursorStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "bb-cursor-"));
+    cursors = new CursorStore(path.join(dir, "cursors.json"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("does nothing on first run (no cursor yet)", async () => {
+    const client = { getChats: vi.fn(), getChatMessages: vi.fn() };
+    const result = await runCatchUp(client as any, cursors, vi.fn(), { maxAgeMs: 60 * MINUTE });
+    expect(result).toEqual({ chats: 0, replayed: 0 });
+    expect(client.getChats).not.toHaveBeenCalled();
+  });
+
+  it("replays missed inbound messages oldest first and skips our own", async () => {
+    await cursors.advance("chat-a", NOW - 10 * MINUTE);
+    const client = {
+      getChats: vi.fn().mockResolvedValue({
+        data: [chat("chat-a", NOW - MINUTE), chat("chat-b", NOW - 20 * MINUTE)],
+      }),
+      getChatMessages: vi.fn().mockResolvedValue({
+        data: [
+          msg("m3", NOW - MINUTE),
+          msg("m1", NOW - 5 * MINUTE),
+          msg("mine", NOW - 3 * MINUTE, { isFromMe: true }),
+        ],
+      }),
+    };
+    const handler = vi.fn().mockResolvedValue(undefined);
+
+    const result = await runCatchUp(client as any, cursors, handler, { maxAgeMs: 60 * MINUTE, now: NOW });
+
+    expect(result).toEqual({ chats: 1, replayed: 2 });
+    expect(handler.mock.calls.map((c) => c[0].guid)).toEqual(["m1", "m3"]);
+    expect(handler.mock.calls[0][0].chats[0].guid).toBe("chat-a");
+    expect(client.getChatMessages).toHaveBeenCalledWith("chat-a", 50, NOW - 10 * MINUTE, "ASC");
+    expect(cursors.get("chat-a")).toBe(NOW - MINUTE);
+  });
+
+  it("starts from the cursors as they were before live messages moved them", async () => {
+    await cursors.advance("chat-a", NOW - 10 * MINUTE);
+    const client = {
+      getChats: vi.fn().mockImplementation(async () => {
+        // A live message is handled while the chat list is loading
+        await cursors.advance("chat-a", NOW - MINUTE);
+        return { data: [chat("chat-a", NOW - MINUTE)] };
+      }),
+      getChatMessages: vi.fn().mockResolvedValue({ data: [] }),
+    };
+
+    await runCatchUp(client as any, cursors, vi.fn(), { maxAgeMs: 60 * MINUTE, now: NOW });
+
+    expect(client.getChatMessages).toHaveBeenCalledWith("chat-a", 50, NOW - 10 * MINUTE, "ASC");
+  });
+
+  it("never fetches messages older than maxAgeMs", async () => {
+    await cursors.advance("chat-a", NOW - 24 * 60 * MINUTE);
+    const client = {
+      getChats: vi.fn().mockResolvedValue({ data: [chat("chat-a", NOW - MINUTE)] }),
+      getChatMessages: vi.fn().mockResolvedValue({ data: [] }),
+    };
+
+    await runCatchUp(client as any, cursors, vi.fn(), { maxAgeMs: 30 * MINUTE, now: NOW });
+
+    expect(client.getChatMessages).toHaveBeenCalledWith("chat-a", 50, NOW - 30 * MINUTE, "ASC");
+  });
+
+  it("pages through messages until a short page", async () => {
+    await cursors.advance("chat-a", NOW - 10 * MINUTE);
+    const client = {
+      getChats: vi.fn().mockResolvedValue({ data: [chat("chat-a", NOW - MINUTE)] }),
+      getChatMessages: vi
+        .fn()
+        .mockResolvedValueOnce({ data: [msg("m1", NOW - 9 * MINUTE), msg("m2", NOW - 8 * MINUTE)] })
+        .mockResolvedValueOnce({ data: [msg("m3", NOW - 7 * MINUTE)] }),
+    };
+    const handler = vi.fn().mockResolvedValue(undefined);
+
+    await runCatchUp(client as any, cursors, handler, { maxAgeMs: 60 * MINUTE, now: NOW, pageSize: 2 });
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(client.getChatMessages).toHaveBeenNthCalledWith(2, "chat-a", 2, NOW - 8 * MINUTE, "ASC");
+  });
+});
@@ -0,0 +1,83 @@
+import { vi, describe, it, expect } from "vitest";
+import { ChatQueue } from "../../src/chat-queue.js";
+
+function deferred() {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("ChatQueue", () => {
+  it("runs work for one chat strictly in order", async () => {
+    const queue = new ChatQueue(4);
+    const order: string[] = [];
+    const first = deferred();
+
+    const a = queue.enqueue("chat-1", async () => {
+      await first.promise;
+      order.push("a");
+    });
+    const b = queue.enqueue("chat-1", async () => {
+      order.push("b");
+    });
+
+    await Promise.resolve();
+    expect(order).toEqual([]);
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(order).toEqual(["a", "b"]);
+  });
+
+  it("runs different chats in parallel up to the limit", async () => {
+    const queue = new ChatQueue(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const jobs = gates.map((gate, i) =>
+      queue.enqueue(`chat-${i}`, async () => {
+        started.push(i);
+        await gate.promise;
+      }),
+    );
+
+    await vi.waitFor(() => expect(started).toEqual([0, 1]));
+    expect(queue.stats()).toMatchObject({ active: 2, queued: 1 });
+
+    gates[0].resolve();
+    await vi.waitFor(() => expect(started).toEqual([0, 1, 2]));
+    gates[1].resolve();
+    gates[2].resolve();
+    await Promise.all(jobs);
+    expect(queue.stats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it("keeps going after a failed job and rejects its promise", async () => {
+    const queue = new ChatQueue(1);
+    const failing = queue.enqueue("chat-1", async () => {
+      throw new Error("boom");
+    });
+    const next = vi.fn().mockResolvedValue(undefined);
+    const after = queue.enqueue("chat-1", next);
+
+    await expect(failing).rejects.toThrow("boom");
+    await after;
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("reports queue depth and wait times", async () => {
+    const onStart = vi.fn();
+    const queue = new ChatQueue(1, onStart);
+    const gate = deferred();
+    const a = queue.enqueue("chat-1", () => gate.promise);
+    const b = queue.enqueue("chat-1", async () => {});
+
+    expect(queue.depth("chat-1")).toBe(2);
+    expect(queue.stats().chats).toEqual({ "chat-1": 2 });
+    gate.resolve();
+    await Promise.all([a, b]);
+
+    expect(onStart).toHaveBeenCalledTimes(2);
+    expect(onStart.mock.calls[0][0]).toMatchObject({ chatGuid: "chat-1", depth: 1 });
+    expect(queue.stats().maxWaitMs).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { chunkText } from "../../src/chunker.js";
+
+function fenceCount(text: string): number {
+  return text.split("\n").filter((line) => /^\s*```/.test(line)).length;
+}
+
+describe("chunkText()", () => {
+  it("returns short text as one chunk and drops empty text", () => {
+    expect(chunkText("  Hello  ", { maxLength: 100 })).toEqual(["Hello"]);
+    expect(chunkText("   ", { maxLength: 100 })).toEqual([]);
+  });
+
+  it("prefers paragraph boundaries", () => {
+    const text = "First paragraph here.\n\nSecond paragraph here.\n\nThird one.";
+    expect(chunkText(text, { maxLength: 50 })).toEqual([
+      "First paragraph here.\n\nSecond paragraph here.",
+      "Third one.",
+    ]);
+  });
+
+  it("splits a long list between items, not inside them", () => {
+    const text = "• apples and pears\n• bananas\n• cherries and plums";
+    expect(chunkText(text, { maxLength: 30 })).toEqual([
+      "• apples and pears\n• bananas",
+      "• cherries and plums",
+    ]);
+  });
+
+  it("falls back to sentence boundaries", () => {
+    const text = "One two three. Four five six! Seven eight nine?";
+    expect(chunkText(text, { maxLength: 32 })).toEqual([
+      "One two three. Four five six!",
+      "Seven eight nine?",
+    ]);
+  });
+
+  it("does not split decimals as sentences", () => {
+    const text = "Pi is 3.14159 roughly. And e is 2.71828 roughly.";
+    expect(chunkText(text, { maxLength: 25 })).toEqual([
+      "Pi is 3.14159 roughly.",
+      "And e is 2.71828 roughly.",
+    ]);
+  });
+
+  it("falls back to word boundaries for long sentences", () => {
+    const chunks = chunkText("alpha beta gamma delta epsilon", { maxLength: 12 });
+    expect(chunks).toEqual(["alpha beta", "gamma delta", "epsilon"]);
+  });
+
+  it("never splits a surrogate pair or emoji sequence", () => {
+    const text = "😀".repeat(5) + "👨‍👩‍👧".repeat(2);
+    const chunks = chunkText(text, { maxLength: 5 });
+    expect(chunks.join("")).toBe(text);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(8);
+      expect(chunk).not.toMatch(/^[\uDC00-\uDFFF]|[\uD800-\uDBFF]$/);
+    }
+  });
+
+  it("keeps a fenced code block intact when it fits", () => {
+    const code = "```js\nconst a = 1;\n\nconst b = 2;\n```";
+    const text = `Intro text here.\n\n${code}\n\nOutro text.`;
+    const chunks = chunkText(text, { maxLength: 45 });
+    expect(chunks).toContain(code);
+    for (const chunk of chunks) expect(fenceCount(chunk) % 2).toBe(0);
+  });
+
+  it("re-fences an oversized code block split by lines", () => {
+    const lines = Array.from({ length: 10 }, (_, i) => `line ${i}`);
+    const text = `\`\`\`py\n${lines.join("\n")}\n\`\`\``;
+    const chunks = chunkText(text, { maxLength: 40 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(40);
+      expect(chunk.startsWith("```py\n")).toBe(true);
+      expect(chunk.endsWith("\n```")).toBe(true);
+    }
+    const body = chunks.flatMap((chunk) => chunk.split("\n").slice(1, -1));
+    expect(body).toEqual(lines);
+  });
+
+  it("never exceeds the limit", () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Sentence number ${i} is here.`).join(" ");
+    for (const chunk of chunkText(text, { maxLength: 70 })) {
+      expect(chunk.length).toBeLessThanOrEqual(70);
+    }
+  });
+
+  it("adds part markers within the limit", () => {
+    const text = "aaaa bbbb. cccc dddd. eeee ffff.";
+    const chunks = chunkText(text, { maxLength: 18, partMarkers: true });
+    expect(chunks).toEqual(["aaaa bbbb. (1/3)", "cccc dddd. (2/3)", "eeee ffff. (3/3)"]);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(18);
+  });
+
+  it("omits part markers for a single chunk", () => {
+    expect(chunkText("Short.", { maxLength: 100, partMarkers: true })).toEqual(["Short."]);
+  });
+
+  it("puts the marker on its own line after a closing fence", () => {
+    const text = "Some intro text.\n\n```\ncode\n```";
+    const chunks = chunkText(text, { maxLength: 24, partMarkers: true });
+    expect(chunks[0]).toBe("Some intro text. (1/2)");
+    expect(chunks[chunks.length - 1]).toBe("```\ncode\n```\n(2/2)");
+  });
+});
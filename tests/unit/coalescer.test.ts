@@ -0,0 +1,89 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Coalescer } from "../../src/coalescer.js";
+
+describe("Coalescer", () => {
+  let flushed: Array<{ key: string; items: string[] }>;
+  let coalescer: Coalescer<string>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    flushed = [];
+    coalescer = new Coalescer<string>({ windowMs: 1000, maxWaitMs: 5000 }, (key, items) => {
+      flushed.push({ key, items });
+    });
+  });
+
+  afterEach(() => {
+    coalescer.cancelAll();
+    vi.useRealTimers();
+  });
+
+  it("merges messages that arrive within the window", () => {
+    coalescer.add("chat", "alice", "one");
+    vi.advanceTimersByTime(800);
+    coalescer.add("chat", "alice", "two");
+    vi.advanceTimersByTime(800);
+    expect(flushed).toEqual([]);
+
+    vi.advanceTimersByTime(200);
+    expect(flushed).toEqual([{ key: "chat", items: ["one", "two"] }]);
+  });
+
+  it("flushes the current burst when a different sender speaks", () => {
+    coalescer.add("chat", "alice", "one");
+    coalescer.add("chat", "bob", "two");
+    expect(flushed).toEqual([{ key: "chat", items: ["one"] }]);
+
+    vi.advanceTimersByTime(1000);
+    expect(flushed[1]).toEqual({ key: "chat", items: ["two"] });
+  });
+
+  it("keeps chats independent", () => {
+    coalescer.add("chat-a", "alice", "one");
+    coalescer.add("chat-b", "alice", "two");
+    vi.advanceTimersByTime(1000);
+    expect(flushed).toHaveLength(2);
+  });
+
+  it("holds the batch open while the sender is typing", () => {
+    coalescer.add("chat", "alice", "one");
+    coalescer.typing("chat", true);
+    vi.advanceTimersByTime(3000);
+    expect(flushed).toEqual([]);
+
+    coalescer.typing("chat", false);
+    vi.advanceTimersByTime(1000);
+    expect(flushed).toEqual([{ key: "chat", items: ["one"] }]);
+  });
+
+  it("never waits longer than maxWaitMs", () => {
+    coalescer.add("chat", "alice", "one");
+    coalescer.typing("chat", true);
+    vi.advanceTimersByTime(5000);
+    expect(flushed).toEqual([{ key: "chat", items: ["one"] }]);
+  });
+
+  it("ignores typing for chats with no pending batch", () => {
+    coalescer.typing("chat", true);
+    expect(coalescer.pending("chat")).toBe(0);
+  });
+
+  it("flushAll() flushes every pending batch at once", async () => {
+    coalescer.add("chat-a", "alice", "one");
+    coalescer.add("chat-b", "bob", "two");
+    await coalescer.flushAll();
+    expect(flushed).toEqual([
+      { key: "chat-a", items: ["one"] },
+      { key: "chat-b", items: ["two"] },
+    ]);
+    vi.advanceTimersByTime(10000);
+    expect(flushed).toHaveLength(2);
+  });
+
+  it("cancelAll() drops pending batches", () => {
+    coalescer.add("chat", "alice", "one");
+    coalescer.cancelAll();
+    vi.advanceTimersByTime(10000);
+    expect(flushed).toEqual([]);
+  });
+});
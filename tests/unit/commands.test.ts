@@ -0,0 +1,93 @@
+import { vi, describe, it, expect } from "vitest";
+import { CommandRegistry, parseCommand, type CommandInvocation } from "../../src/commands.js";
+
+function makeInvocation(overrides: Partial<CommandInvocation> = {}): CommandInvocation {
+  return {
+    name: "ping",
+    args: [],
+    chatGuid: "iMessage;-;+15551234567",
+    senderAddress: "+15551234567",
+    isGroup: false,
+    isOwner: false,
+    message: {} as any,
+    reply: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+describe("parseCommand()", () => {
+  it("parses the command name and arguments", () => {
+    expect(parseCommand("!pair approve ABC123", "!")).toEqual({
+      name: "pair",
+      args: ["approve", "ABC123"],
+    });
+  });
+
+  it("lower-cases the command name", () => {
+    expect(parseCommand("/Status", "/")?.name).toBe("status");
+  });
+
+  it("returns null for text without the prefix", () => {
+    expect(parseCommand("hello !status", "!")).toBeNull();
+  });
+
+  it("returns null for prefix-only or punctuation text", () => {
+    expect(parseCommand("!", "!")).toBeNull();
+    expect(parseCommand("!!!", "!")).toBeNull();
+  });
+});
+
+describe("CommandRegistry", () => {
+  it("dispatches to a registered command and its aliases", async () => {
+    const registry = new CommandRegistry();
+    const handler = vi.fn().mockResolvedValue(undefined);
+    registry.register({ name: "ping", description: "Ping", aliases: ["p"], handler });
+
+    expect(await registry.dispatch(makeInvocation())).toBe(true);
+    expect(await registry.dispatch(makeInvocation({ name: "p" }))).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns false for unknown commands", async () => {
+    const registry = new CommandRegistry();
+    expect(await registry.dispatch(makeInvocation({ name: "nope" }))).toBe(false);
+  });
+
+  it("rejects duplicate registrations", () => {
+    const registry = new CommandRegistry();
+    const command = { name: "ping", description: "Ping", handler: vi.fn() };
+    registry.register(command);
+    expect(() => registry.register(command)).toThrow(/already registered/);
+  });
+
+  it("unregisters commands and their aliases", async () => {
+    const registry = new CommandRegistry();
+    registry.register({ name: "ping", description: "Ping", aliases: ["p"], handler: vi.fn() });
+    expect(registry.unregister("ping")).toBe(true);
+    expect(registry.get("p")).toBeUndefined();
+    expect(registry.unregister("ping")).toBe(false);
+  });
+
+  it("blocks owner-only commands for non-owners", async () => {
+    const registry = new CommandRegistry();
+    const handler = vi.fn();
+    registry.register({ name: "ping", description: "Ping", permission: "owner", handler });
+
+    const invocation = makeInvocation();
+    expect(await registry.dispatch(invocation)).toBe(true);
+    expect(handler).not.toHaveBeenCalled();
+    expect(invocation.reply).toHaveBeenCalledWith(expect.stringContaining("only the owner"));
+
+    await registry.dispatch(makeInvocation({ isOwner: true }));
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it("applies permission overrides by command name", async () => {
+    const registry = new CommandRegistry();
+    const handler = vi.fn();
+    registry.register({ name: "ping", description: "Ping", handler });
+
+    await registry.dispatch(makeInvocation(), { ping: "owner" });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ContactResolver, contactName } from "../../src/contacts.js";
+import type { BBContact } from "../../src/types.js";
+
+function clientWith(...pages: BBContact[][]) {
+  const getContacts = vi.fn();
+  for (const page of pages) getContacts.mockResolvedValueOnce({ status: 200, data: page });
+  return { getContacts };
+}
+
+const JANE: BBContact = {
+  firstName: "Jane",
+  lastName: "Doe",
+  phoneNumbers: [{ address: "(555) 123-4567" }],
+  emails: [{ address: "Jane.Doe@Example.com" }],
+};
+
+describe("contactName()", () => {
+  it("prefers the display name, then first and last name, then nickname", () => {
+    expect(contactName({ displayName: "JD", firstName: "Jane" })).toBe("JD");
+    expect(contactName({ firstName: "Jane", lastName: "Doe" })).toBe("Jane Doe");
+    expect(contactName({ nickname: "Janey" })).toBe("Janey");
+    expect(contactName({})).toBe("");
+  });
+});
+
+describe("ContactResolver", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("maps phone handles and emails to contact names", async () => {
+    const resolver = new ContactResolver(clientWith([JANE]));
+    await resolver.refresh();
+
+    // Stored without a country code, received in E.164
+    expect(resolver.resolve("+15551234567")).toBe("Jane Doe");
+    expect(resolver.resolve("jane.doe@example.com")).toBe("Jane Doe");
+    expect(resolver.resolve("+15550000000")).toBeUndefined();
+    expect(resolver.displayName("+15550000000")).toBe("+15550000000");
+  });
+
+  it("reads numbers without a country code in the default country", async () => {
+    const resolver = new ContactResolver(
+      clientWith([{ firstName: "Nigel", phoneNumbers: [{ address: "07911 123456" }] }]),
+      { defaultCountry: "GB" },
+    );
+    await resolver.refresh();
+
+    expect(resolver.resolve("+447911123456")).toBe("Nigel");
+  });
+
+  it("lets configured overrides win over contacts", async () => {
+    const resolver = new ContactResolver(clientWith([JANE]), {
+      overrides: { "+15551234567": "Mom", "+15559876543": "Plumber" },
+    });
+    await resolver.refresh();
+
+    expect(resolver.resolve("+1 555 123 4567")).toBe("Mom");
+    expect(resolver.resolve("+15559876543")).toBe("Plumber");
+  });
+
+  it("keeps the previous names when a refresh fails", async () => {
+    const client = clientWith([JANE]);
+    client.getContacts.mockRejectedValueOnce(new Error("contacts unavailable"));
+    const onError = vi.fn();
+    const resolver = new ContactResolver(client, { onError });
+
+    await resolver.refresh();
+    await resolver.refresh();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "contacts unavailable" }));
+    expect(resolver.resolve("+15551234567")).toBe("Jane Doe");
+  });
+
+  it("reloads contacts on the refresh interval", async () => {
+    vi.useFakeTimers();
+    const client = clientWith([], [JANE]);
+    const resolver = new ContactResolver(client, { refreshMs: 60_000 });
+
+    await resolver.start();
+    expect(resolver.resolve("+15551234567")).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(client.getContacts).toHaveBeenCalledTimes(2);
+    expect(resolver.resolve("+15551234567")).toBe("Jane Doe");
+    resolver.stop();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { DedupeStore } from "../../src/dedupe.js";
+
+describe("DedupeStore", () => {
+  it("accepts a GUID once and counts suppressed duplicates", () => {
+    const store = new DedupeStore();
+    expect(store.check("a", 0)).toBe(true);
+    expect(store.check("a", 1)).toBe(false);
+    expect(store.check("a", 2)).toBe(false);
+    expect(store.suppressed).toBe(2);
+  });
+
+  it("forgets GUIDs outside the time window", () => {
+    const store = new DedupeStore({ windowMs: 1000 });
+    store.check("a", 0);
+    expect(store.check("a", 999)).toBe(false);
+    expect(store.check("a", 1001)).toBe(true);
+  });
+
+  it("evicts the oldest GUIDs beyond maxEntries", () => {
+    const store = new DedupeStore({ maxEntries: 2 });
+    store.check("a", 0);
+    store.check("b", 1);
+    store.check("c", 2);
+    expect(store.size).toBe(2);
+    expect(store.check("a", 3)).toBe(true);
+  });
+
+  describe("persistence", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), "bb-dedupe-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("restores seen GUIDs from disk", async () => {
+      const filePath = path.join(dir, "dedupe.json");
+      const store = new DedupeStore({ filePath });
+      store.check("a");
+      store.check("b");
+      await store.flush();
+
+      const reloaded = new DedupeStore({ filePath });
+      await reloaded.load();
+      expect(reloaded.check("a")).toBe(false);
+      expect(reloaded.check("b")).toBe(false);
+      expect(reloaded.check("c")).toBe(true);
+    });
+
+    it("drops expired entries on load", async () => {
+      const filePath = path.join(dir, "dedupe.json");
+      const store = new DedupeStore({ filePath, windowMs: 1000 });
+      store.check("a", 0);
+      await store.flush();
+
+      const reloaded = new DedupeStore({ filePath, windowMs: 1000 });
+      await reloaded.load(5000);
+      expect(reloaded.size).toBe(0);
+    });
+  });
+});
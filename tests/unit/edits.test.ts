@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { describeEdit, describeRetraction, parseMessageChange } from "../../src/edits.js";
+
+describe("parseMessageChange()", () => {
+  it("detects edits and unsends", () => {
+    expect(parseMessageChange({ dateEdited: 100 })).toEqual({ kind: "edited", editedAt: 100 });
+    expect(parseMessageChange({ dateRetracted: 200 })).toEqual({
+      kind: "retracted",
+      retractedAt: 200,
+    });
+  });
+
+  it("treats an edited then unsent message as unsent", () => {
+    expect(parseMessageChange({ dateEdited: 100, dateRetracted: 200 })?.kind).toBe("retracted");
+  });
+
+  it("returns null for other updates", () => {
+    expect(parseMessageChange({})).toBeNull();
+    expect(parseMessageChange({ dateEdited: null, dateRetracted: 0 })).toBeNull();
+  });
+});
+
+describe("describeEdit() / describeRetraction()", () => {
+  it("quotes the old and new text", () => {
+    expect(describeEdit("Alice", "g1", "see you at 6", "see you at 5")).toBe(
+      'Alice edited "see you at 5" to "see you at 6" (message g1)',
+    );
+    expect(describeRetraction("Alice", "g1", "wrong chat")).toBe(
+      'Alice unsent "wrong chat" (message g1)',
+    );
+  });
+
+  it("works without the original text", () => {
+    expect(describeEdit("Alice", "g1", "new")).toBe('Alice edited a message to "new" (message g1)');
+    expect(describeRetraction("Alice", "g1")).toBe("Alice unsent a message (message g1)");
+  });
+});
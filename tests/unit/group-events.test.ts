@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { describeGroupEvent, parseGroupEvent } from "../../src/group-events.js";
+
+describe("parseGroupEvent()", () => {
+  it("parses membership changes", () => {
+    expect(parseGroupEvent({ itemType: 1, groupActionType: 0, groupTitle: "" })).toEqual({
+      kind: "added",
+    });
+    expect(parseGroupEvent({ itemType: 1, groupActionType: 1, groupTitle: "" })).toEqual({
+      kind: "removed",
+    });
+    expect(parseGroupEvent({ itemType: 3, groupActionType: 0, groupTitle: "" })).toEqual({
+      kind: "left",
+    });
+  });
+
+  it("parses renames with the new title", () => {
+    expect(parseGroupEvent({ itemType: 2, groupActionType: 0, groupTitle: " Ski Trip " })).toEqual(
+      { kind: "renamed", title: "Ski Trip" },
+    );
+  });
+
+  it("parses group photo changes", () => {
+    expect(parseGroupEvent({ itemType: 3, groupActionType: 1, groupTitle: "" })?.kind).toBe(
+      "photo-changed",
+    );
+    expect(parseGroupEvent({ itemType: 3, groupActionType: 2, groupTitle: "" })?.kind).toBe(
+      "photo-removed",
+    );
+  });
+
+  it("returns null for regular messages and other item types", () => {
+    expect(parseGroupEvent({ itemType: 0, groupActionType: 0, groupTitle: "" })).toBeNull();
+    expect(parseGroupEvent({ itemType: 6, groupActionType: 0, groupTitle: "" })).toBeNull();
+  });
+});
+
+describe("describeGroupEvent()", () => {
+  it("describes renames", () => {
+    expect(describeGroupEvent("Alice", { kind: "renamed", title: "Ski Trip" })).toBe(
+      'Alice renamed the group to "Ski Trip"',
+    );
+    expect(describeGroupEvent("Alice", { kind: "renamed", title: "" })).toBe(
+      "Alice removed the group name",
+    );
+  });
+
+  it("names added and removed members when known", () => {
+    expect(describeGroupEvent("Alice", { kind: "added" }, ["Bob"])).toBe(
+      "Alice added Bob to the group",
+    );
+    expect(describeGroupEvent("Alice", { kind: "added" }, ["Bob", "Carol", "Dan"])).toBe(
+      "Alice added Bob, Carol and Dan to the group",
+    );
+    expect(describeGroupEvent("Alice", { kind: "removed" })).toBe(
+      "Alice removed someone from the group",
+    );
+  });
+});
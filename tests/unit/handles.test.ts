@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { normalizeHandle } from "../../src/handles.js";
+
+describe("normalizeHandle()", () => {
+  it("formats phone numbers as E.164", () => {
+    expect(normalizeHandle("+1 (555) 123-4567")).toBe("+15551234567");
+    expect(normalizeHandle("+44 7911 123456")).toBe("+447911123456");
+    expect(normalizeHandle("+15551234567")).toBe("+15551234567");
+  });
+
+  it("adds the default country to national numbers", () => {
+    expect(normalizeHandle("(555) 123-4567")).toBe("+15551234567");
+    expect(normalizeHandle("1-555-123-4567")).toBe("+15551234567");
+    expect(normalizeHandle("07911 123456", "GB")).toBe("+447911123456");
+    expect(normalizeHandle("07911 123456", "gb")).toBe("+447911123456");
+    expect(normalizeHandle("0151 23456789", "DE")).toBe("+4915123456789");
+  });
+
+  it("understands international dialling prefixes", () => {
+    expect(normalizeHandle("0044 7911 123456")).toBe("+447911123456");
+    expect(normalizeHandle("011 44 7911 123456", "US")).toBe("+447911123456");
+  });
+
+  it("lower-cases and trims emails", () => {
+    expect(normalizeHandle("  Jane.Doe@Example.COM ")).toBe("jane.doe@example.com");
+    expect(normalizeHandle("mailto:Jane@Example.com")).toBe("jane@example.com");
+  });
+
+  it("leaves short codes, partial numbers and other IDs alone", () => {
+    expect(normalizeHandle("12345")).toBe("12345");
+    expect(normalizeHandle("555-1234")).toBe("5551234");
+    expect(normalizeHandle("555 1234", "XX")).toBe("5551234");
+    expect(normalizeHandle("urn:biz:ABC")).toBe("urn:biz:abc");
+  });
+});
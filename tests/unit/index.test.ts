@@ -1,4 +1,4 @@
-import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi, describe, it, expect, beforeEach, afterEach, afterAll } from "vitest";
 
 // Mock socket.io-client (must be before plugin import)
 vi.mock("socket.io-client", () => {
@@ -26,16 +26,18 @@ vi.mock("winston", () => {
   };
   class MockFile {}
   class MockConsole {}
+  // winston.format is itself callable: format(transform) returns a format factory
+  const format = Object.assign(vi.fn().mockReturnValue(() => ({})), {
+    combine: vi.fn().mockReturnValue({}),
+    timestamp: vi.fn().mockReturnValue({}),
+    errors: vi.fn().mockReturnValue({}),
+    json: vi.fn().mockReturnValue({}),
+    colorize: vi.fn().mockReturnValue({}),
+    simple: vi.fn().mockReturnValue({}),
+  });
   const winston = {
     createLogger: vi.fn().mockReturnValue(logger),
-    format: {
-      combine: vi.fn().mockReturnValue({}),
-      timestamp: vi.fn().mockReturnValue({}),
-      errors: vi.fn().mockReturnValue({}),
-      json: vi.fn().mockReturnValue({}),
-      colorize: vi.fn().mockReturnValue({}),
-      simple: vi.fn().mockReturnValue({}),
-    },
+    format,
     transports: {
       File: MockFile,
       Console: MockConsole,
@@ -44,6 +46,13 @@ vi.mock("winston", () => {
   return { default: winston, ...winston };
 });
 
+import { mkdtempSync } from "node:fs";
+import { request } from "node:http";
+import { createServer } from "node:net";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { io } from "socket.io-client";
 import plugin, {
   isAllowed,
   isGroupChat,
@@ -51,8 +60,23 @@ import plugin, {
   handleUpdatedMessage,
   sendResponse,
   resolveCredentials,
+  registerCommand,
+  unregisterCommand,
+  sessionKeyFor,
+  queueNewMessage,
+  chunkLimitFor,
+  getConnectionStatus,
+  onConnectionStateChange,
 } from "../../src/index.js";
 
+// Each mock context gets its own plugin dir so persisted state doesn't leak between tests
+const tmpDirs: string[] = [];
+// Signature plus padding; only the leading bytes matter
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+afterAll(async () => {
+  await Promise.all(tmpDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
 // Build a mock context
 function makeMockCtx(configOverrides: Record<string, unknown> = {}) {
   const defaultConfig = {
@@ -64,7 +88,10 @@ function makeMockCtx(configOverrides: Record<string, unknown> = {}) {
     sendReadReceipts: false,
     enableAttachments: true,
     mediaMaxMb: 8,
+    requestRetries: 0,
   };
+  const pluginDir = mkdtempSync(path.join(os.tmpdir(), "bb-plugin-"));
+  tmpDirs.push(pluginDir);
   return {
     inject: vi.fn().mockResolvedValue("Bot response"),
     logMessage: vi.fn(),
@@ -78,7 +105,7 @@ function makeMockCtx(configOverrides: Record<string, unknown> = {}) {
     saveConfig: vi.fn().mockResolvedValue(undefined),
     getMainConfig: vi.fn().mockReturnValue(undefined),
     registerConfigSchema: vi.fn(),
-    getPluginDir: vi.fn().mockReturnValue("/tmp/plugin-dir"),
+    getPluginDir: vi.fn().mockReturnValue(pluginDir),
     log: {
       info: vi.fn(),
       warn: vi.fn(),
@@ -215,6 +242,33 @@ describe("isAllowed()", () => {
     expect(isAllowed("+15559999999", true)).toBe(false);
     await plugin.shutdown!();
   });
+
+  it("matches differently formatted phone numbers and emails", async () => {
+    const ctx = makeMockCtx({
+      dmPolicy: "allowlist",
+      allowFrom: ["+1 (555) 111-1111", " Jane@Example.com "],
+      groupPolicy: "allowlist",
+      groupAllowFrom: ["07911 123456"],
+      defaultCountry: "GB",
+    });
+    await plugin.init!(ctx as any);
+    expect(isAllowed("+15551111111", false)).toBe(true);
+    expect(isAllowed("jane@example.com", false)).toBe(true);
+    expect(isAllowed("+447911123456", true)).toBe(true);
+    expect(isAllowed("+15551111112", false)).toBe(false);
+    await plugin.shutdown!();
+  });
+
+  it("uses one session per DM however the handle is written", async () => {
+    const ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+    expect(sessionKeyFor("iMessage;-;Jane@Example.com")).toBe(
+      "bluebubbles-iMessage;-;jane@example.com",
+    );
+    expect(sessionKeyFor("SMS;-;+1 555 111 1111")).toBe("bluebubbles-SMS;-;+15551111111");
+    expect(sessionKeyFor("iMessage;+;chat123")).toBe("bluebubbles-iMessage;+;chat123");
+    await plugin.shutdown!();
+  });
 });
 
 describe("init()", () => {
@@ -433,6 +487,148 @@ describe("handleNewMessage()", () => {
     );
   });
 
+  it("passes image attachments to inject as data URIs", async () => {
+    const message = makeMessage({
+      text: "look",
+      attachments: [
+        {
+          guid: "attach-guid-1",
+          transferName: "photo.png",
+          totalBytes: 3,
+          transferState: 5,
+          mimeType: "image/png",
+          uti: "public.png",
+          isOutgoing: false,
+          height: 1,
+          width: 1,
+        },
+      ],
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: { get: () => null },
+      body: null,
+      arrayBuffer: async () => PNG_BYTES.buffer,
+    });
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
+
+    await handleNewMessage(message as any);
+
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(String),
+      expect.objectContaining({
+        images: [`data:image/png;base64,${Buffer.from(PNG_BYTES).toString("base64")}`],
+      })
+    );
+  });
+
+  it("labels inline images by their bytes, so a HEIC converted on download is JPEG", async () => {
+    const heic = {
+      guid: "attach-guid-3",
+      transferName: "IMG_0001.HEIC",
+      totalBytes: 4,
+      transferState: 5,
+      mimeType: "image/heic",
+      uti: "public.heic",
+      isOutgoing: false,
+      height: 1,
+      width: 1,
+    };
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: { get: () => null },
+      body: null,
+      arrayBuffer: async () => new Uint8Array([0xff, 0xd8, 0xff, 0xe0]).buffer,
+    });
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
+
+    await handleNewMessage(makeMessage({ text: "look", attachments: [heic] }) as any);
+
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(String),
+      expect.objectContaining({ images: ["data:image/jpeg;base64,/9j/4A=="] })
+    );
+  });
+
+  it("saves images that are still HEIC as files instead of inlining them", async () => {
+    const pluginDir = await mkdtemp(path.join(os.tmpdir(), "bb-plugin-"));
+    ctx.getPluginDir.mockReturnValue(pluginDir);
+    const heic = {
+      guid: "attach-guid-4",
+      transferName: "IMG_0002.HEIC",
+      totalBytes: 16,
+      transferState: 5,
+      mimeType: "image/heic",
+      uti: "public.heic",
+      isOutgoing: false,
+      height: 1,
+      width: 1,
+    };
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: { get: () => null },
+      body: null,
+      arrayBuffer: async () => new Uint8Array(Buffer.from("\0\0\0\x18ftypheic\0\0\0\0")).buffer,
+    });
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
+
+    await handleNewMessage(makeMessage({ text: "", attachments: [heic] }) as any);
+
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.stringContaining("IMG_0002.HEIC saved to"),
+      expect.objectContaining({ images: undefined })
+    );
+    await rm(pluginDir, { recursive: true, force: true });
+  });
+
+  it("saves non-image attachments to the session directory and references the path", async () => {
+    const pluginDir = await mkdtemp(path.join(os.tmpdir(), "bb-plugin-"));
+    ctx.getPluginDir.mockReturnValue(pluginDir);
+    const message = makeMessage({
+      text: "",
+      attachments: [
+        {
+          guid: "attach-guid-2",
+          transferName: "notes.pdf",
+          totalBytes: 3,
+          transferState: 5,
+          mimeType: "application/pdf",
+          uti: "com.adobe.pdf",
+          isOutgoing: false,
+          height: 0,
+          width: 0,
+        },
+      ],
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: { get: () => null },
+      body: null,
+      arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer,
+    });
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
+
+    await handleNewMessage(message as any);
+
+    const savedPath = path.join(
+      pluginDir,
+      "attachments",
+      "bluebubbles-iMessage_-_+15551234567",
+      "attach-guid-2-notes.pdf"
+    );
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.stringContaining(`notes.pdf saved to ${savedPath}`),
+      expect.objectContaining({ images: undefined })
+    );
+    await rm(pluginDir, { recursive: true, force: true });
+  });
+
   it("skips messages from disallowed DM sender (allowlist policy)", async () => {
     // Reinit with allowlist
     await plugin.shutdown!();
@@ -460,76 +656,1097 @@ describe("handleNewMessage()", () => {
   });
 });
 
-describe("handleUpdatedMessage()", () => {
-  it("does not call inject for tapback reactions (informational only)", async () => {
-    const mockFetch = vi.fn();
-    globalThis.fetch = mockFetch;
-    mockFetch
-      .mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) })
-      .mockResolvedValueOnce({
-        json: async () => ({ status: 200, data: { private_api: false } }),
-      });
+describe("duplicate suppression", () => {
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  async function initWith(ctx: ReturnType<typeof makeMockCtx>) {
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) => ({
+      json: async () => ({
+        status: 200,
+        data: String(url).includes("/server/info") ? { private_api: false } : {},
+      }),
+    })) as any;
+    await plugin.init!(ctx as any);
+  }
+
+  it("answers a message GUID only once", async () => {
+    const ctx = makeMockCtx();
+    await initWith(ctx);
+
+    await handleNewMessage(makeMessage({ guid: "dup-1" }) as any);
+    await handleNewMessage(makeMessage({ guid: "dup-1" }) as any);
+
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("remembers seen GUIDs across a restart", async () => {
+    const ctx = makeMockCtx();
+    await initWith(ctx);
+    await handleNewMessage(makeMessage({ guid: "dup-2" }) as any);
+    await plugin.shutdown!();
+
+    ctx.inject.mockClear();
+    await initWith(ctx);
+    await handleNewMessage(makeMessage({ guid: "dup-2" }) as any);
+
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("does not persist seen GUIDs when dedupePersist is false", async () => {
+    const ctx = makeMockCtx({ dedupePersist: false });
+    await initWith(ctx);
+    await handleNewMessage(makeMessage({ guid: "dup-3" }) as any);
+    await plugin.shutdown!();
+
+    ctx.inject.mockClear();
+    await initWith(ctx);
+    await handleNewMessage(makeMessage({ guid: "dup-3" }) as any);
+
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("per-chat queue", () => {
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
 
+  it("does not start a second inject in the same chat until the first finishes", async () => {
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) => ({
+      json: async () => ({
+        status: 200,
+        data: String(url).includes("/server/info") ? { private_api: false } : {},
+      }),
+    })) as any;
     const ctx = makeMockCtx();
     await plugin.init!(ctx as any);
 
-    const message = makeMessage({
-      associatedMessageGuid: "original-msg-guid",
-      associatedMessageType: "+like",
-      handle: { address: "+15551234567", country: "us", service: "iMessage", originalROWID: 1 },
+    let inFlight = 0;
+    let maxInFlight = 0;
+    ctx.inject.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, 5));
+      inFlight--;
+      return "ok";
     });
 
-    await handleUpdatedMessage(message as any);
+    await Promise.all([
+      queueNewMessage(makeMessage({ guid: "q-1", text: "one" }) as any),
+      queueNewMessage(makeMessage({ guid: "q-2", text: "two" }) as any),
+    ]);
+
+    expect(maxInFlight).toBe(1);
+    expect(ctx.inject.mock.calls.map((c: any[]) => c[1])).toEqual([
+      expect.stringContaining("one"),
+      expect.stringContaining("two"),
+    ]);
+  });
+});
+
+describe("message coalescing", () => {
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("merges a burst of messages from the same sender into one inject", async () => {
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) => ({
+      json: async () => ({
+        status: 200,
+        data: String(url).includes("/server/info") ? { private_api: false } : {},
+      }),
+    })) as any;
+    const ctx = makeMockCtx({ coalesceWindowMs: 20 });
+    await plugin.init!(ctx as any);
 
+    await handleNewMessage(makeMessage({ guid: "c-1", text: "so I was thinking" }) as any);
+    await handleNewMessage(makeMessage({ guid: "c-2", text: "about the trip" }) as any);
     expect(ctx.inject).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalledTimes(1));
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      "[+15551234567]: so I was thinking\nabout the trip",
+      expect.any(Object)
+    );
+    // Both messages are still recorded individually
+    expect(ctx.logMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("answers a held burst on shutdown instead of dropping it", async () => {
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) => ({
+      json: async () => ({
+        status: 200,
+        data: String(url).includes("/server/info") ? { private_api: false } : {},
+      }),
+    })) as any;
+    const ctx = makeMockCtx({ coalesceWindowMs: 60_000 });
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(makeMessage({ guid: "c-3", text: "one last thing" }) as any);
+    expect(ctx.inject).not.toHaveBeenCalled();
+
     await plugin.shutdown!();
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      "[+15551234567]: one last thing",
+      expect.any(Object)
+    );
   });
 });
 
-describe("sendResponse()", () => {
+describe("rate limiting", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  async function initWith(overrides: Record<string, unknown>) {
+    mockFetch = vi.fn().mockImplementation(async (url: string) => ({
+      json: async () => ({
+        status: 200,
+        data: String(url).includes("/server/info") ? { private_api: false } : {},
+      }),
+    }));
+    globalThis.fetch = mockFetch as any;
+    const ctx = makeMockCtx(overrides);
+    await plugin.init!(ctx as any);
+    return ctx;
+  }
+
+  function sentTexts(): string[] {
+    return mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/api/v1/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+  }
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("throttles a DM sender over the limit with a single notice", async () => {
+    const ctx = await initWith({ dmRateLimitPerMinute: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      await handleNewMessage(makeMessage({ guid: `rl-${i}`, text: `msg ${i}` }) as any);
+    }
+
+    expect(ctx.inject).toHaveBeenCalledTimes(2);
+    const notices = sentTexts().filter((t) => t.includes("faster than I can keep up"));
+    expect(notices).toHaveLength(1);
+  });
+
+  it("exempts owner handles", async () => {
+    const ctx = await initWith({ dmRateLimitPerMinute: 1, ownerHandles: ["+15551234567"] });
+
+    for (let i = 0; i < 3; i++) {
+      await handleNewMessage(makeMessage({ guid: `rl-owner-${i}` }) as any);
+    }
+
+    expect(ctx.inject).toHaveBeenCalledTimes(3);
+  });
+
+  it("limits a whole group across senders", async () => {
+    const ctx = await initWith({ groupChatRateLimitPerMinute: 2 });
+    const group = [{ guid: "iMessage;+;chat1", chatIdentifier: "", groupId: "", displayName: "Team", participants: [], lastMessage: undefined }];
+
+    for (let i = 0; i < 3; i++) {
+      await handleNewMessage(
+        makeMessage({
+          guid: `rl-group-${i}`,
+          chats: group,
+          handle: { address: `+1555000000${i}`, country: "us", service: "iMessage", originalROWID: i },
+        }) as any
+      );
+    }
+
+    expect(ctx.inject).toHaveBeenCalledTimes(2);
+  });
+
+  it("can be disabled", async () => {
+    const ctx = await initWith({ rateLimitEnabled: false, dmRateLimitPerMinute: 1 });
+    await handleNewMessage(makeMessage({ guid: "rl-off-1" }) as any);
+    await handleNewMessage(makeMessage({ guid: "rl-off-2" }) as any);
+    expect(ctx.inject).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("group activation", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let ctx: ReturnType<typeof makeMockCtx>;
+  const group = [{ guid: "iMessage;+;chat42", chatIdentifier: "", groupId: "", displayName: "Family", participants: [], lastMessage: undefined }];
+
+  beforeEach(async () => {
+    mockFetch = vi.fn().mockImplementation(async (url: string) => ({
+      json: async () => ({
+        status: 200,
+        data: String(url).includes("/server/info")
+          ? { private_api: false }
+          : { guid: "bot-reply-1" },
+      }),
+    }));
+    globalThis.fetch = mockFetch as any;
+    ctx = makeMockCtx({ groupActivation: "mention" });
+    await plugin.init!(ctx as any);
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("records but does not answer group messages that don't address the agent", async () => {
+    await handleNewMessage(makeMessage({ guid: "g-1", text: "dinner at 7?", chats: group }) as any);
+
+    expect(ctx.inject).not.toHaveBeenCalled();
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      "bluebubbles-iMessage;+;chat42",
+      "dinner at 7?",
+      expect.objectContaining({ from: "+15551234567" })
+    );
+  });
+
+  it("answers when the agent is mentioned by name", async () => {
+    await handleNewMessage(makeMessage({ guid: "g-2", text: "TestBot, settle this", chats: group }) as any);
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers inline replies to the agent's own messages", async () => {
+    await handleNewMessage(makeMessage({ guid: "g-3", text: "TestBot?", chats: group }) as any);
+    const reply = makeMessage({ guid: "g-4", text: "what about this one", chats: group });
+    (reply as any).threadOriginatorGuid = "bot-reply-1";
+    await handleNewMessage(reply as any);
+
+    expect(ctx.inject).toHaveBeenCalledTimes(2);
+  });
+
+  it("looks up uncached replied-to messages to see whether they were the agent's", async () => {
+    mockFetch.mockImplementation(async (url: string) => ({
+      json: async () => ({
+        status: 200,
+        data: String(url).includes("/server/info")
+          ? { private_api: false }
+          : String(url).includes("/message/bot-old-1")
+            ? { ...makeMessage({ guid: "bot-old-1", text: "earlier answer", chats: group }), isFromMe: true }
+            : String(url).includes("/message/friend-old-1")
+              ? makeMessage({ guid: "friend-old-1", text: "earlier question", chats: group })
+              : { guid: "bot-reply-2" },
+      }),
+    }));
+    const reply = makeMessage({ guid: "g-8", text: "what about this one", chats: group });
+    (reply as any).threadOriginatorGuid = "p:0/bot-old-1";
+    await handleNewMessage(reply as any);
+    const aside = makeMessage({ guid: "g-9", text: "agreed", chats: group });
+    (aside as any).threadOriginatorGuid = "p:0/friend-old-1";
+    await handleNewMessage(aside as any);
+
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.stringContaining("what about this one"),
+      expect.any(Object)
+    );
+  });
+
+  it("does not treat the next message after the agent's reply as addressed to it", async () => {
+    await handleNewMessage(makeMessage({ guid: "g-6", text: "TestBot?", chats: group }) as any);
+    const next = makeMessage({ guid: "g-7", text: "anyway, dinner at 7", chats: group });
+    (next as any).replyToGuid = "bot-reply-1";
+    await handleNewMessage(next as any);
+
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("always answers DMs", async () => {
+    await handleNewMessage(makeMessage({ guid: "g-5", text: "hi" }) as any);
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("catch-up after reconnect", () => {
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("replays messages that arrived while disconnected on connect", async () => {
+    const now = Date.now();
+    const chatGuid = "iMessage;-;+15551234567";
+    const ctx = makeMockCtx();
+    await writeFile(
+      path.join(ctx.getPluginDir(), "cursors.json"),
+      JSON.stringify({ global: now - 60_000, chats: { [chatGuid]: now - 60_000 } })
+    );
+
+    const missed = makeMessage({ guid: "missed-1", text: "are you there?" });
+    (missed as any).dateCreated = now - 30_000;
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) => {
+      const path = String(url);
+      let data: unknown = {};
+      if (path.includes("/server/info")) data = { private_api: false };
+      if (path.includes("/chat/query")) data = [{ guid: chatGuid, lastMessage: { dateCreated: now - 30_000 } }];
+      if (path.includes("/message/query")) data = [missed];
+      return { json: async () => ({ status: 200, data }) };
+    }) as any;
+
+    await plugin.init!(ctx as any);
+    await vi.waitFor(() =>
+      expect(ctx.inject).toHaveBeenCalledWith(
+        `bluebubbles-${chatGuid}`,
+        expect.stringContaining("are you there?"),
+        expect.any(Object)
+      )
+    );
+  });
+});
+
+describe("command router", () => {
   let mockFetch: ReturnType<typeof vi.fn>;
+  let ctx: ReturnType<typeof makeMockCtx>;
+  let pluginDir: string;
 
   beforeEach(async () => {
     mockFetch = vi.fn();
     globalThis.fetch = mockFetch;
     vi.clearAllMocks();
+    pluginDir = await mkdtemp(path.join(os.tmpdir(), "bb-plugin-"));
 
     mockFetch
       .mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) })
       .mockResolvedValueOnce({
-        json: async () => ({ status: 200, data: { private_api: false } }),
+        json: async () => ({ status: 200, data: { private_api: true } }),
       });
 
-    const ctx = makeMockCtx();
+    ctx = makeMockCtx({ commandPrefix: "/", ownerHandles: ["+15550000000"] });
+    ctx.getPluginDir.mockReturnValue(pluginDir);
     await plugin.init!(ctx as any);
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
   });
 
   afterEach(async () => {
     await plugin.shutdown!().catch(() => {});
+    await rm(pluginDir, { recursive: true, force: true });
   });
 
-  it("sends short message in a single chunk", async () => {
-    mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
+  function sentTexts(): string[] {
+    return mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/api/v1/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+  }
 
-    await sendResponse("iMessage;-;+15551234567", "Short reply");
+  it("handles built-in commands without injecting", async () => {
+    await handleNewMessage(makeMessage({ text: "/status" }) as any);
 
-    const sendTextCalls = mockFetch.mock.calls.filter((call: any[]) =>
-      String(call[0]).includes("/api/v1/message/text")
-    );
-    expect(sendTextCalls.length).toBe(1);
-    const body = JSON.parse(sendTextCalls[0][1].body);
-    expect(body.message).toBe("Short reply");
+    expect(ctx.inject).not.toHaveBeenCalled();
+    expect(sentTexts()[0]).toContain("Private API: enabled");
+    expect(sentTexts()[0]).toContain("Connection: connected");
   });
 
-  it("splits long message into multiple chunks at sentence boundaries", async () => {
-    // Create a message that is definitely over 4000 chars
-    // Each "sentence" is ~100 chars, so 50 of them = ~5000 chars total, requiring 2 chunks
-    const longText =
-      "This is a very long sentence that takes up some space and needs to be split. ".repeat(60);
-    // longText is ~4680 chars, should need at least 2 chunks
+  it("passes unknown commands through to the agent", async () => {
+    await handleNewMessage(makeMessage({ text: "/shrug" }) as any);
+    expect(ctx.inject).toHaveBeenCalled();
+  });
 
-    // Mock enough sendText responses
-    for (let i = 0; i < 5; i++) {
+  it("reset starts a fresh session key for the chat", async () => {
+    const chatGuid = "iMessage;-;+15551234567";
+    expect(sessionKeyFor(chatGuid)).toBe(`bluebubbles-${chatGuid}`);
+
+    await handleNewMessage(makeMessage({ guid: "reset-guid", text: "/reset" }) as any);
+    const newKey = sessionKeyFor(chatGuid);
+    expect(newKey).not.toBe(`bluebubbles-${chatGuid}`);
+
+    await handleNewMessage(makeMessage({ guid: "later-guid", text: "hi again" }) as any);
+    expect(ctx.inject).toHaveBeenCalledWith(newKey, expect.any(String), expect.any(Object));
+  });
+
+  it("whoami reports the sender and owner flag", async () => {
+    await handleNewMessage(makeMessage({ text: "/whoami" }) as any);
+    expect(sentTexts()[0]).toContain("Address: +15551234567");
+    expect(sentTexts()[0]).toContain("Owner: no");
+  });
+
+  it("help hides owner-only commands from non-owners", async () => {
+    await handleNewMessage(makeMessage({ text: "/help" }) as any);
+    expect(sentTexts()[0]).toContain("/status");
+    expect(sentTexts()[0]).not.toContain("/pair");
+  });
+
+  it("dispatches commands registered through registerCommand()", async () => {
+    const handler = vi.fn(async ({ args, reply }: any) => reply(`echo ${args.join(" ")}`));
+    registerCommand({ name: "echo", description: "Echo", handler });
+    try {
+      await handleNewMessage(makeMessage({ text: "/echo one two" }) as any);
+    } finally {
+      unregisterCommand("echo");
+    }
+    expect(sentTexts()).toContain("echo one two");
+  });
+});
+
+describe("typing indicator", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let ctx: ReturnType<typeof makeMockCtx>;
+
+  beforeEach(async () => {
+    mockFetch = vi.fn();
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+
+    mockFetch
+      .mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) })
+      .mockResolvedValueOnce({
+        json: async () => ({ status: 200, data: { private_api: true } }),
+      });
+
+    ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  function typingCalls(): string[] {
+    return mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/typing"))
+      .map((call: any[]) => call[1].method);
+  }
+
+  it("starts the indicator before inject and clears it afterwards", async () => {
+    ctx.inject.mockImplementation(async () => {
+      expect(typingCalls()).toEqual(["POST"]);
+      return "done";
+    });
+
+    await handleNewMessage(makeMessage() as any);
+
+    expect(typingCalls()).toEqual(["POST", "DELETE"]);
+  });
+
+  it("does not hold up the turn while the typing endpoint hangs", async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      String(url).includes("/typing")
+        ? new Promise(() => {})
+        : { json: async () => ({ status: 200, data: {} }) },
+    );
+
+    await handleNewMessage(makeMessage() as any);
+
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+    expect(typingCalls()).toEqual(["POST", "DELETE"]);
+  });
+
+  it("clears the indicator when inject fails", async () => {
+    ctx.inject.mockRejectedValueOnce(new Error("boom"));
+
+    await handleNewMessage(makeMessage() as any);
+
+    expect(typingCalls()).toEqual(["POST", "DELETE"]);
+  });
+
+  it("is skipped for SMS chats by default", async () => {
+    const message = makeMessage({
+      chats: [{ guid: "SMS;-;+15551234567", chatIdentifier: "", groupId: "", displayName: "", participants: [], lastMessage: undefined }],
+    });
+
+    await handleNewMessage(message as any);
+
+    expect(ctx.inject).toHaveBeenCalled();
+    expect(typingCalls()).toEqual([]);
+  });
+
+  it("clears an active indicator on shutdown", async () => {
+    let release: (v: string) => void = () => {};
+    ctx.inject.mockImplementation(() => new Promise<string>((r) => (release = r)));
+
+    const pending = handleNewMessage(makeMessage() as any);
+    await vi.waitFor(() => expect(typingCalls()).toEqual(["POST"]));
+    await plugin.shutdown!();
+    expect(typingCalls()).toEqual(["POST", "DELETE"]);
+
+    release("late");
+    await pending;
+  });
+});
+
+describe("streaming responses", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let ctx: ReturnType<typeof makeMockCtx>;
+
+  beforeEach(async () => {
+    mockFetch = vi.fn();
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+
+    mockFetch
+      .mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) })
+      .mockResolvedValueOnce({
+        json: async () => ({ status: 200, data: { private_api: false } }),
+      });
+
+    ctx = makeMockCtx({ streamResponses: true, streamMinIntervalMs: 0 });
+    await plugin.init!(ctx as any);
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  function sendTextBodies(): any[] {
+    return mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/api/v1/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body));
+  }
+
+  it("sends streamed pieces as separate messages, threading only the first", async () => {
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
+    ctx.inject.mockImplementation(async (_s: string, _m: string, opts: any) => {
+      opts.onStream({ type: "text", content: "First paragraph.\n\n" });
+      opts.onStream({ type: "text", content: "Second paragraph." });
+      return "First paragraph.\n\nSecond paragraph.";
+    });
+
+    await handleNewMessage(makeMessage() as any);
+
+    const bodies = sendTextBodies();
+    expect(bodies.map((b) => b.message)).toEqual(["First paragraph.", "Second paragraph."]);
+    expect(bodies[0].selectedMessageGuid).toBe("msg-guid-1");
+    expect(bodies[1].selectedMessageGuid).toBeUndefined();
+  });
+
+  it("falls back to the full response when nothing was streamed", async () => {
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
+
+    await handleNewMessage(makeMessage() as any);
+
+    expect(sendTextBodies().map((b) => b.message)).toEqual(["Bot response"]);
+  });
+});
+
+describe("pairing policy", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let ctx: ReturnType<typeof makeMockCtx>;
+  let pluginDir: string;
+
+  beforeEach(async () => {
+    mockFetch = vi.fn();
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+    pluginDir = await mkdtemp(path.join(os.tmpdir(), "bb-plugin-"));
+
+    mockFetch
+      .mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) })
+      .mockResolvedValueOnce({
+        json: async () => ({ status: 200, data: { private_api: false } }),
+      });
+
+    ctx = makeMockCtx({ dmPolicy: "pairing", ownerHandles: ["+15550000000"] });
+    ctx.getPluginDir.mockReturnValue(pluginDir);
+    await plugin.init!(ctx as any);
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+    await rm(pluginDir, { recursive: true, force: true });
+  });
+
+  function sentTexts(): string[] {
+    return mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/api/v1/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+  }
+
+  it("replies to an unknown sender with a pairing code once, without injecting", async () => {
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
+    const message = makeMessage({
+      handle: { address: "+15559999999", country: "us", service: "iMessage", originalROWID: 2 },
+      chats: [{ guid: "iMessage;-;+15559999999", chatIdentifier: "", groupId: "", displayName: "", participants: [], lastMessage: undefined }],
+    });
+
+    await handleNewMessage(message as any);
+    await handleNewMessage({ ...message, guid: "msg-guid-2" } as any);
+
+    expect(ctx.inject).not.toHaveBeenCalled();
+    const texts = sentTexts();
+    expect(texts).toHaveLength(1);
+    expect(texts[0]).toMatch(/pairing code [A-Z2-9]{6}/);
+  });
+
+  it("lets an owner approve a code by message, after which the sender is allowed", async () => {
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
+    const stranger = makeMessage({
+      handle: { address: "+15559999999", country: "us", service: "iMessage", originalROWID: 2 },
+      chats: [{ guid: "iMessage;-;+15559999999", chatIdentifier: "", groupId: "", displayName: "", participants: [], lastMessage: undefined }],
+    });
+    await handleNewMessage(stranger as any);
+    const code = sentTexts()[0].match(/pairing code ([A-Z2-9]{6})/)![1];
+
+    const approval = makeMessage({
+      guid: "approval-guid",
+      text: `!pair approve ${code}`,
+      handle: { address: "+15550000000", country: "us", service: "iMessage", originalROWID: 3 },
+      chats: [{ guid: "iMessage;-;+15550000000", chatIdentifier: "", groupId: "", displayName: "", participants: [], lastMessage: undefined }],
+    });
+    await handleNewMessage(approval as any);
+
+    expect(sentTexts()).toContain("Approved +15559999999");
+    expect(isAllowed("+15559999999", false)).toBe(true);
+
+    await handleNewMessage({ ...stranger, guid: "msg-guid-3" } as any);
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets an owner chat without pairing", async () => {
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
+    const owner = makeMessage({
+      text: "hello",
+      handle: { address: "+1 555 000 0000", country: "us", service: "iMessage", originalROWID: 3 },
+      chats: [{ guid: "iMessage;-;+15550000000", chatIdentifier: "", groupId: "", displayName: "", participants: [], lastMessage: undefined }],
+    });
+
+    await handleNewMessage(owner as any);
+
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+    expect(sentTexts().some((text) => /pairing code/.test(text))).toBe(false);
+  });
+
+  it("approves a code through the WOPR CLI command", async () => {
+    mockFetch.mockResolvedValue({ json: async () => ({ status: 200, data: {} }) });
+    const stranger = makeMessage({
+      handle: { address: "+15559999999", country: "us", service: "iMessage", originalROWID: 2 },
+      chats: [{ guid: "iMessage;-;+15559999999", chatIdentifier: "", groupId: "", displayName: "", participants: [], lastMessage: undefined }],
+    });
+    await handleNewMessage(stranger as any);
+    const code = sentTexts()[0].match(/pairing code ([A-Z2-9]{6})/)![1];
+
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const command = plugin.commands!.find((c) => c.name === "bluebubbles")!;
+    await command.handler(ctx as any, ["pairing", "approve", code]);
+    expect(logSpy).toHaveBeenCalledWith("Approved +15559999999");
+    logSpy.mockRestore();
+
+    expect(isAllowed("+15559999999", false)).toBe(true);
+  });
+});
+
+describe("handleUpdatedMessage()", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let ctx: ReturnType<typeof makeMockCtx>;
+
+  async function initWith(overrides: Record<string, unknown> = {}) {
+    mockFetch = vi.fn();
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+    mockFetch
+      .mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) })
+      .mockResolvedValueOnce({
+        json: async () => ({ status: 200, data: { private_api: false } }),
+      });
+
+    ctx = makeMockCtx(overrides);
+    await plugin.init!(ctx as any);
+  }
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("does not call inject for tapback reactions (informational only)", async () => {
+    await initWith();
+
+    const message = makeMessage({
+      associatedMessageGuid: "original-msg-guid",
+      associatedMessageType: "+like",
+      handle: { address: "+15551234567", country: "us", service: "iMessage", originalROWID: 1 },
+    });
+
+    await handleUpdatedMessage(message as any);
+
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("logs a dislike on a bot reply with the reacted-to text", async () => {
+    await initWith();
+    mockFetch.mockResolvedValueOnce({
+      json: async () => ({ status: 200, data: { guid: "bot-msg-1" } }),
+    });
+    await sendResponse("iMessage;-;+15551234567", "The capital of Australia is Sydney.");
+
+    const tapback = makeMessage({
+      guid: "tapback-1",
+      associatedMessageGuid: "p:0/bot-msg-1",
+      associatedMessageType: "dislike",
+    });
+    await handleUpdatedMessage(tapback as any);
+    // The same tapback arriving as a new-message is not recorded twice
+    await handleNewMessage(tapback as any);
+
+    expect(ctx.logMessage).toHaveBeenCalledTimes(1);
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      "bluebubbles-iMessage;-;+15551234567",
+      '[tapback] +15551234567 disliked "The capital of Australia is Sydney." (your message)',
+      expect.objectContaining({ from: "+15551234567" })
+    );
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("records tapback removals", async () => {
+    await initWith();
+
+    await handleUpdatedMessage(
+      makeMessage({ associatedMessageGuid: "unknown", associatedMessageType: "-love" }) as any
+    );
+
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      expect.any(String),
+      "[tapback] +15551234567 removed their love reaction from a message",
+      expect.any(Object)
+    );
+  });
+
+  it("injects the tapback silently when injectTapbacks is enabled", async () => {
+    await initWith({ injectTapbacks: true });
+
+    await handleUpdatedMessage(
+      makeMessage({ associatedMessageGuid: "unknown", associatedMessageType: "question" }) as any
+    );
+
+    expect(ctx.inject).toHaveBeenCalledWith(
+      "bluebubbles-iMessage;-;+15551234567",
+      expect.stringContaining("questioned"),
+      expect.objectContaining({ silent: true })
+    );
+    // Silent events never produce an outbound message
+    const sendTextCalls = mockFetch.mock.calls.filter((call: any[]) =>
+      String(call[0]).includes("/api/v1/message/text")
+    );
+    expect(sendTextCalls).toHaveLength(0);
+  });
+});
+
+describe("group events", () => {
+  let ctx: ReturnType<typeof makeMockCtx>;
+  const GROUP = "iMessage;+;chat-ski";
+
+  function groupMessage(overrides: Record<string, unknown> = {}) {
+    return makeMessage({
+      guid: `group-event-${Math.random()}`,
+      text: "",
+      chats: [{ guid: GROUP, displayName: "Old Name", participants: [] } as any],
+      ...overrides,
+    } as any);
+  }
+
+  beforeEach(async () => {
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("logs a rename and uses the new name for the channel", async () => {
+    ctx = makeMockCtx({ contactNames: { "+15551234567": "Alice" } });
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(groupMessage({ itemType: 2, groupTitle: "Ski Trip" }) as any);
+
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      `bluebubbles-${GROUP}`,
+      '[group] Alice renamed the group to "Ski Trip"',
+      expect.objectContaining({
+        from: "Alice",
+        channel: expect.objectContaining({ name: "Ski Trip" }),
+      }),
+    );
+    expect(ctx.inject).not.toHaveBeenCalled();
+
+    // Later messages still carrying the old name use the new one
+    await handleNewMessage(groupMessage({ text: "hi" }) as any);
+    expect(ctx.inject.mock.calls[0][2].channel.name).toBe("Ski Trip");
+  });
+
+  it("names members who were added, from the change in participants", async () => {
+    ctx = makeMockCtx({ contactNames: { "+15551234567": "Alice", "+15552222222": "Bob" } });
+    await plugin.init!(ctx as any);
+    const before = [{ address: "+15551234567" }];
+    const after = [...before, { address: "+15552222222" }];
+
+    await handleNewMessage(
+      groupMessage({ chats: [{ guid: GROUP, displayName: "", participants: before }] }) as any,
+    );
+    await handleNewMessage(
+      groupMessage({
+        itemType: 1,
+        groupActionType: 0,
+        chats: [{ guid: GROUP, displayName: "", participants: after }],
+      }) as any,
+    );
+
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      expect.any(String),
+      "[group] Alice added Bob to the group",
+      expect.anything(),
+    );
+  });
+
+  it("tells the agent silently when enabled", async () => {
+    ctx = makeMockCtx({ injectGroupEvents: true });
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(groupMessage({ itemType: 3, groupActionType: 1 }) as any);
+
+    expect(ctx.inject).toHaveBeenCalledWith(
+      `bluebubbles-${GROUP}`,
+      "[group] +15551234567 changed the group photo",
+      expect.objectContaining({ silent: true }),
+    );
+  });
+
+  it("ignores group events from senders blocked by policy", async () => {
+    ctx = makeMockCtx({ groupPolicy: "allowlist", groupAllowFrom: ["+15559999999"] });
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(groupMessage({ itemType: 3, groupActionType: 0 }) as any);
+
+    expect(ctx.logMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("edited and unsent messages", () => {
+  let ctx: ReturnType<typeof makeMockCtx>;
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("logs an edit against the original message, once", async () => {
+    ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+    await handleNewMessage(makeMessage({ guid: "m1", text: "see you at 5" }) as any);
+
+    const edited = makeMessage({ guid: "m1", text: "see you at 6" });
+    await handleUpdatedMessage({ ...edited, dateEdited: 1000 } as any);
+    // A later read receipt carries the same edit
+    await handleUpdatedMessage({ ...edited, dateEdited: 1000, dateRead: 2000 } as any);
+
+    const edits = ctx.logMessage.mock.calls.filter((call: any[]) => call[1].startsWith("[edit]"));
+    expect(edits).toHaveLength(1);
+    expect(edits[0][1]).toBe(
+      '[edit] +15551234567 edited "see you at 5" to "see you at 6" (message m1)',
+    );
+    expect(ctx.inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers an edited message again when enabled", async () => {
+    ctx = makeMockCtx({ rerunOnEdit: true });
+    await plugin.init!(ctx as any);
+    await handleNewMessage(makeMessage({ guid: "m1", text: "what is 2+2" }) as any);
+
+    await handleUpdatedMessage(
+      { ...makeMessage({ guid: "m1", text: "what is 3+3" }), dateEdited: 1000 } as any,
+    );
+
+    expect(ctx.inject).toHaveBeenCalledTimes(2);
+    expect(ctx.inject.mock.calls[1][1]).toBe("[+15551234567]: (edited) what is 3+3");
+  });
+
+  it("does not re-run for edits of messages the agent never answered", async () => {
+    ctx = makeMockCtx({ rerunOnEdit: true });
+    await plugin.init!(ctx as any);
+
+    await handleUpdatedMessage(
+      { ...makeMessage({ guid: "unknown", text: "edited" }), dateEdited: 1000 } as any,
+    );
+
+    expect(ctx.inject).not.toHaveBeenCalled();
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      expect.any(String),
+      '[edit] +15551234567 edited a message to "edited" (message unknown)',
+      expect.anything(),
+    );
+  });
+
+  it("logs unsent messages as retractions", async () => {
+    ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+    await handleNewMessage(makeMessage({ guid: "m1", text: "wrong chat" }) as any);
+
+    await handleUpdatedMessage({ ...makeMessage({ guid: "m1", text: "" }), dateRetracted: 1000 } as any);
+
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      expect.any(String),
+      '[unsend] +15551234567 unsent "wrong chat" (message m1)',
+      expect.objectContaining({ from: "+15551234567" }),
+    );
+  });
+
+  it("ignores plain delivery and read updates", async () => {
+    ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+
+    await handleUpdatedMessage({ ...makeMessage(), dateRead: 1000 } as any);
+
+    expect(ctx.logMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("inline reply quotes", () => {
+  let ctx: ReturnType<typeof makeMockCtx>;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      if (String(url).includes("/message/old-guid")) {
+        return {
+          json: async () => ({
+            status: 200,
+            data: makeMessage({
+              guid: "old-guid",
+              text: "Should we take the blue one?",
+              handle: { address: "bob@example.com" } as any,
+            }),
+          }),
+        };
+      }
+      if (String(url).includes("/message/missing-guid")) {
+        return { json: async () => ({ status: 404, message: "Message not found" }) };
+      }
+      if (String(url).includes("/message/text")) {
+        return { json: async () => ({ status: 200, data: { guid: "bot-msg-1" } }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  function fetchedMessages(): string[] {
+    return mockFetch.mock.calls
+      .map((call: any[]) => String(call[0]))
+      .filter((url: string) => /\/message\/(?!text)/.test(url));
+  }
+
+  it("quotes the agent's own message from the cache", async () => {
+    ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+    await sendResponse("iMessage;-;+15551234567", "The capital of Australia is Sydney.");
+
+    await handleNewMessage(
+      makeMessage({ text: "are you sure?", threadOriginatorGuid: "bot-msg-1" } as any) as any,
+    );
+
+    expect(ctx.inject.mock.calls[0][1]).toBe(
+      '[+15551234567]: (replying to your message: "The capital of Australia is Sydney.") are you sure?',
+    );
+    expect(fetchedMessages()).toEqual([]);
+  });
+
+  it("fetches an uncached original from the API and names its sender", async () => {
+    ctx = makeMockCtx({ contactNames: { "bob@example.com": "Bob" } });
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(
+      makeMessage({ text: "what about this one?", threadOriginatorGuid: "old-guid" } as any) as any,
+    );
+    await handleNewMessage(
+      makeMessage({ guid: "m3", text: "and this?", threadOriginatorGuid: "old-guid" } as any) as any,
+    );
+
+    expect(ctx.inject.mock.calls[0][1]).toBe(
+      '[+15551234567]: (replying to Bob: "Should we take the blue one?") what about this one?',
+    );
+    // The second reply is served from the cache
+    expect(fetchedMessages()).toHaveLength(1);
+  });
+
+  it("sends the text alone when the original can't be found", async () => {
+    ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(
+      makeMessage({ text: "this", threadOriginatorGuid: "missing-guid" } as any) as any,
+    );
+
+    expect(ctx.inject.mock.calls[0][1]).toBe("[+15551234567]: this");
+  });
+
+  it("ignores replyToGuid alone, which ordinary messages carry too", async () => {
+    ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+    await sendResponse("iMessage;-;+15551234567", "Earlier reply");
+
+    await handleNewMessage(makeMessage({ text: "next", replyToGuid: "bot-msg-1" } as any) as any);
+
+    expect(ctx.inject.mock.calls[0][1]).toBe("[+15551234567]: next");
+  });
+});
+
+describe("sendResponse()", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    mockFetch = vi.fn();
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+
+    mockFetch
+      .mockResolvedValueOnce({ json: async () => ({ status: 200, message: "pong" }) })
+      .mockResolvedValueOnce({
+        json: async () => ({ status: 200, data: { private_api: false } }),
+      });
+
+    const ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("sends short message in a single chunk", async () => {
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
+
+    await sendResponse("iMessage;-;+15551234567", "Short reply");
+
+    const sendTextCalls = mockFetch.mock.calls.filter((call: any[]) =>
+      String(call[0]).includes("/api/v1/message/text")
+    );
+    expect(sendTextCalls.length).toBe(1);
+    const body = JSON.parse(sendTextCalls[0][1].body);
+    expect(body.message).toBe("Short reply");
+  });
+
+  it("splits long message into multiple chunks at sentence boundaries", async () => {
+    // Create a message that is definitely over 4000 chars
+    // Each "sentence" is ~100 chars, so 50 of them = ~5000 chars total, requiring 2 chunks
+    const longText =
+      "This is a very long sentence that takes up some space and needs to be split. ".repeat(60);
+    // longText is ~4680 chars, should need at least 2 chunks
+
+    // Mock enough sendText responses
+    for (let i = 0; i < 5; i++) {
       mockFetch.mockResolvedValueOnce({ json: async () => ({ status: 200, data: {} }) });
     }
 
@@ -541,3 +1758,486 @@ describe("sendResponse()", () => {
     expect(sendTextCalls.length).toBeGreaterThan(1);
   });
 });
+
+describe("outbound attachments", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let woprHome: string;
+  const savedHome = process.env.WOPR_HOME;
+
+  beforeEach(async () => {
+    woprHome = await mkdtemp(path.join(os.tmpdir(), "bb-wopr-home-"));
+    process.env.WOPR_HOME = woprHome;
+    mockFetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      return { json: async () => ({ status: 200, data: { guid: `out-${Date.now()}` } }) };
+    });
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+    await plugin.init!(makeMockCtx() as any);
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+    if (savedHome === undefined) delete process.env.WOPR_HOME;
+    else process.env.WOPR_HOME = savedHome;
+    await rm(woprHome, { recursive: true, force: true });
+  });
+
+  function sentKinds(): string[] {
+    return mockFetch.mock.calls
+      .map((call: any[]) => String(call[0]))
+      .filter((url) => url.includes("/message/text") || url.includes("/message/attachment"))
+      .map((url) => (url.includes("/message/text") ? "text" : "attachment"));
+  }
+
+  it("uploads a referenced file in place between text chunks", async () => {
+    const file = path.join(woprHome, "chart.png");
+    await writeFile(file, "png-bytes");
+
+    await sendResponse("iMessage;-;+15551234567", `Here it is:\n${file}\nAnything else?`);
+
+    expect(sentKinds()).toEqual(["text", "attachment", "text"]);
+    const upload = mockFetch.mock.calls.find((call: any[]) =>
+      String(call[0]).includes("/message/attachment"),
+    )!;
+    const form = upload[1].body as FormData;
+    expect(form.get("name")).toBe("chart.png");
+    expect(form.get("chatGuid")).toBe("iMessage;-;+15551234567");
+  });
+
+  it("sends a fallback message when the attachment can't be sent", async () => {
+    await sendResponse(
+      "iMessage;-;+15551234567",
+      `Report: ![missing.pdf](${path.join(woprHome, "missing.pdf")})`,
+    );
+
+    const texts = mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+    expect(texts).toEqual(["Report:", `(Couldn't send attachment "missing.pdf": file not found)`]);
+    expect(sentKinds()).not.toContain("attachment");
+  });
+
+  it("leaves paths that aren't sendable files as plain text", async () => {
+    await mkdir(path.join(woprHome, "workspace"));
+    const text = `I saved your notes in ${path.join(woprHome, "workspace")} and you can edit them.`;
+
+    await sendResponse("iMessage;-;+15551234567", text);
+
+    const texts = mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+    expect(texts).toEqual([text]);
+  });
+
+  it("sends a fallback message when the upload is rejected", async () => {
+    await writeFile(path.join(woprHome, "photo.jpg"), "jpg");
+    mockFetch.mockImplementation(async (url: string) => {
+      if (String(url).includes("/message/attachment")) {
+        return { json: async () => ({ status: 500, message: "Upload failed" }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+
+    await sendResponse("iMessage;-;+15551234567", path.join(woprHome, "photo.jpg"));
+
+    const texts = mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+    expect(texts).toEqual([
+      `(Couldn't send attachment "photo.jpg": BlueBubbles request failed (500): Upload failed)`,
+    ]);
+  });
+
+  it("leaves paths outside WOPR_HOME as plain text", async () => {
+    await sendResponse("iMessage;-;+15551234567", "Check /etc/hosts");
+    expect(sentKinds()).toEqual(["text"]);
+  });
+});
+
+describe("reply formatting", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    mockFetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  function sentTexts(): string[] {
+    return mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+  }
+
+  it("converts Markdown to plain text by default", async () => {
+    await plugin.init!(makeMockCtx() as any);
+    await sendResponse("iMessage;-;+15551234567", "## Plan\n- **first**\n- [docs](https://d.example)");
+    expect(sentTexts()).toEqual(["Plan\n• first\n• docs (https://d.example)"]);
+  });
+
+  it("sends Markdown unchanged in raw mode", async () => {
+    await plugin.init!(makeMockCtx({ markdownMode: "raw" }) as any);
+    await sendResponse("iMessage;-;+15551234567", "**bold**");
+    expect(sentTexts()).toEqual(["**bold**"]);
+  });
+});
+
+describe("per-service chunk limits", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("uses separate limits for iMessage and SMS chats", async () => {
+    await plugin.init!(makeMockCtx({ textChunkLimit: 3000, smsChunkLimit: 500 }) as any);
+    expect(chunkLimitFor("iMessage;-;+15551234567")).toBe(3000);
+    expect(chunkLimitFor("SMS;-;+15551234567")).toBe(500);
+  });
+
+  it("splits SMS replies at the SMS limit with part markers", async () => {
+    await plugin.init!(makeMockCtx({ smsChunkLimit: 40, chunkPartMarkers: true }) as any);
+    await sendResponse("SMS;-;+15551234567", "First sentence is here. Second sentence is here.");
+
+    const texts = mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+    expect(texts).toEqual(["First sentence is here. (1/2)", "Second sentence is here. (2/2)"]);
+  });
+});
+
+describe("contact names", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      if (String(url).includes("/api/v1/contact")) {
+        return {
+          json: async () => ({
+            status: 200,
+            data: [
+              { firstName: "Jane", lastName: "Doe", phoneNumbers: [{ address: "5551234567" }] },
+              { displayName: "Bob", emails: [{ address: "bob@example.com" }] },
+            ],
+          }),
+        };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("uses the contact name in the prefix, channel and log, but injects from the handle", async () => {
+    const ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(makeMessage({ text: "hi" }) as any);
+
+    expect(ctx.inject).toHaveBeenCalledWith(
+      expect.any(String),
+      "[Jane Doe]: hi",
+      expect.objectContaining({
+        from: "+15551234567",
+        channel: expect.objectContaining({ id: "dm:+15551234567", name: "Jane Doe" }),
+      }),
+    );
+    expect(ctx.logMessage).toHaveBeenCalledWith(
+      expect.any(String),
+      "hi",
+      expect.objectContaining({ from: "Jane Doe" }),
+    );
+  });
+
+  it("names unnamed groups after their members", async () => {
+    const ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(
+      makeMessage({
+        chats: [
+          {
+            guid: "iMessage;+;chat123",
+            displayName: "",
+            participants: [{ address: "+15551234567" }, { address: "bob@example.com" }],
+          } as any,
+        ],
+      }) as any,
+    );
+
+    expect(ctx.inject.mock.calls[0][2].channel.name).toBe("Jane Doe, Bob");
+  });
+
+  it("applies configured overrides, even with contacts turned off", async () => {
+    const ctx = makeMockCtx({
+      resolveContacts: false,
+      contactNames: { "+15551234567": "Mom" },
+    });
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(makeMessage({ text: "hi" }) as any);
+
+    expect(ctx.inject.mock.calls[0][1]).toBe("[Mom]: hi");
+    expect(mockFetch.mock.calls.some((call: any[]) => String(call[0]).includes("/contact"))).toBe(
+      false,
+    );
+  });
+
+  it("falls back to the raw handle for unknown senders", async () => {
+    const ctx = makeMockCtx();
+    await plugin.init!(ctx as any);
+
+    await handleNewMessage(makeMessage({ handle: { address: "+15550000000" } } as any) as any);
+
+    expect(ctx.inject.mock.calls[0][1]).toBe("[+15550000000]: Hello there");
+    expect(ctx.inject.mock.calls[0][2].channel.name).toBe("BlueBubbles DM");
+  });
+});
+
+describe("webhook ingestion", () => {
+  // Request path without the password query parameter
+  const apiPath = (url: unknown) => new URL(String(url)).pathname;
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let port: number;
+
+  async function freePort(): Promise<number> {
+    const srv = createServer();
+    await new Promise<void>((resolve) => srv.listen(0, "127.0.0.1", resolve));
+    const address = srv.address() as { port: number };
+    await new Promise<void>((resolve) => srv.close(() => resolve()));
+    return address.port;
+  }
+
+  // POST with node:http, since fetch is mocked in this file
+  function postEvent(body: unknown, query = "?secret=hook-secret"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const req = request(
+        { host: "127.0.0.1", port, path: `/bb${query}`, method: "POST", headers: { "Content-Type": "application/json" } },
+        (res) => {
+          res.resume();
+          res.on("end", () => resolve(res.statusCode ?? 0));
+        },
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify(body));
+    });
+  }
+
+  beforeEach(async () => {
+    port = await freePort();
+    mockFetch = vi.fn().mockImplementation(async (url: string, init?: RequestInit) => {
+      const u = String(url);
+      if (u.includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      if (apiPath(u).endsWith("/webhook") && init?.method === "GET") {
+        return { json: async () => ({ status: 200, data: [] }) };
+      }
+      if (apiPath(u).endsWith("/webhook") && init?.method === "POST") {
+        return { json: async () => ({ status: 200, data: { id: 7, url: "", events: [] } }) };
+      }
+      if (u.includes("/chat/query")) {
+        return { json: async () => ({ status: 200, data: [] }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  function webhookCtx(overrides: Record<string, unknown> = {}) {
+    return makeMockCtx({
+      ingestMode: "webhook",
+      webhookHost: "127.0.0.1",
+      webhookPort: port,
+      webhookPath: "/bb",
+      webhookSecret: "hook-secret",
+      ...overrides,
+    });
+  }
+
+  it("receives messages over HTTP instead of Socket.IO", async () => {
+    const ctx = webhookCtx();
+    await plugin.init!(ctx as any);
+
+    expect(vi.mocked(io)).not.toHaveBeenCalled();
+    const status = await postEvent({ type: "new-message", data: makeMessage({ guid: "wh-1" }) });
+    expect(status).toBe(200);
+    await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalled());
+  });
+
+  it("rejects events without the secret", async () => {
+    const ctx = webhookCtx();
+    await plugin.init!(ctx as any);
+
+    expect(await postEvent({ type: "new-message", data: makeMessage({ guid: "wh-2" }) }, "")).toBe(401);
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("does not start the listener without a secret", async () => {
+    const ctx = webhookCtx({ webhookSecret: "" });
+    await plugin.init!(ctx as any);
+
+    await expect(postEvent({ type: "new-message", data: makeMessage({ guid: "wh-3" }) }, "")).rejects.toThrow();
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("registers the webhook at startup and removes it at shutdown", async () => {
+    await plugin.init!(
+      webhookCtx({ webhookAutoRegister: true, webhookUrl: "http://10.0.0.5:8787/bb" }) as any,
+    );
+
+    const create = mockFetch.mock.calls.find(
+      (call: any[]) => apiPath(call[0]).endsWith("/webhook") && call[1]?.method === "POST",
+    )!;
+    expect(JSON.parse(create[1].body)).toEqual({
+      url: "http://10.0.0.5:8787/bb?secret=hook-secret",
+      events: ["new-message", "updated-message", "typing-indicator"],
+    });
+
+    await plugin.shutdown!();
+    expect(
+      mockFetch.mock.calls.some(
+        (call: any[]) => apiPath(call[0]).endsWith("/webhook/7") && call[1]?.method === "DELETE",
+      ),
+    ).toBe(true);
+  });
+
+  it("reuses a webhook already registered for the same URL", async () => {
+    mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+      if (apiPath(url).endsWith("/webhook") && init?.method === "GET") {
+        return {
+          json: async () => ({
+            status: 200,
+            data: [{ id: 3, url: "http://10.0.0.5:8787/bb?secret=hook-secret", events: [] }],
+          }),
+        };
+      }
+      return { json: async () => ({ status: 200, data: [] }) };
+    });
+    await plugin.init!(
+      webhookCtx({ webhookAutoRegister: true, webhookUrl: "http://10.0.0.5:8787/bb" }) as any,
+    );
+
+    expect(
+      mockFetch.mock.calls.some(
+        (call: any[]) => apiPath(call[0]).endsWith("/webhook") && call[1]?.method === "POST",
+      ),
+    ).toBe(false);
+    // The hook isn't ours, so it stays registered
+    await plugin.shutdown!();
+    expect(mockFetch.mock.calls.some((call: any[]) => apiPath(call[0]).endsWith("/webhook/3"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("connection state", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  // Fire a Socket.IO event on the mocked socket the plugin connected with
+  function fireSocket(event: string, ...args: unknown[]) {
+    const socket = vi.mocked(io).mock.results.at(-1)!.value;
+    for (const [name, handler] of socket.on.mock.calls) {
+      if (name === event) handler(...args);
+    }
+  }
+
+  function sentTexts(): string[] {
+    return mockFetch.mock.calls
+      .filter((call: any[]) => String(call[0]).includes("/message/text"))
+      .map((call: any[]) => JSON.parse(call[1].body).message);
+  }
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockImplementation(async (url: string) => {
+      if (String(url).includes("/server/info")) {
+        return { json: async () => ({ status: 200, data: { private_api: false } }) };
+      }
+      return { json: async () => ({ status: 200, data: {} }) };
+    });
+    globalThis.fetch = mockFetch;
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await plugin.shutdown!().catch(() => {});
+  });
+
+  it("reports stopped before init and connected after", async () => {
+    expect(getConnectionStatus().state).toBe("stopped");
+    await plugin.init!(makeMockCtx() as any);
+    expect(getConnectionStatus().state).toBe("connected");
+  });
+
+  it("notifies listeners of state changes", async () => {
+    await plugin.init!(makeMockCtx() as any);
+    const listener = vi.fn();
+    const unsubscribe = onConnectionStateChange(listener);
+
+    fireSocket("disconnect", "transport close");
+    unsubscribe();
+    fireSocket("connect");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ state: "reconnecting", lastError: "Disconnected: transport close" }),
+      "connected",
+    );
+  });
+
+  it("holds replies while reconnecting and sends them once connected", async () => {
+    await plugin.init!(makeMockCtx() as any);
+    fireSocket("disconnect", "transport close");
+
+    const sending = sendResponse("iMessage;-;+15551234567", "Held reply");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(sentTexts()).toEqual([]);
+
+    fireSocket("connect");
+    await sending;
+    expect(sentTexts()).toEqual(["Held reply"]);
+  });
+
+  it("drops replies if the connection doesn't come back in time", async () => {
+    await plugin.init!(makeMockCtx({ sendWaitMs: 20 }) as any);
+    fireSocket("disconnect", "transport close");
+
+    await sendResponse("iMessage;-;+15551234567", "Lost reply");
+    expect(sentTexts()).toEqual([]);
+  });
+});
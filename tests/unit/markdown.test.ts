@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { formatInline, formatMarkdown, formatTable } from "../../src/markdown.js";
+
+describe("formatMarkdown() raw mode", () => {
+  it("returns the text unchanged", () => {
+    const text = "**bold** and ### not a heading\n- item";
+    expect(formatMarkdown(text, "raw")).toBe(text);
+  });
+});
+
+describe("formatMarkdown() plain mode", () => {
+  it("strips emphasis markers", () => {
+    expect(formatMarkdown("This is **bold**, *italic*, __also bold__ and ~~gone~~.")).toBe(
+      "This is bold, italic, also bold and gone.",
+    );
+  });
+
+  it("leaves snake_case and arithmetic alone", () => {
+    expect(formatMarkdown("Set max_retry_count to 2 * 3 * 4")).toBe(
+      "Set max_retry_count to 2 * 3 * 4",
+    );
+  });
+
+  it("turns headings into plain lines", () => {
+    expect(formatMarkdown("# Title\n\n### Section ###\nBody")).toBe("Title\n\nSection\nBody");
+  });
+
+  it("converts unordered lists to bullets with nesting", () => {
+    expect(formatMarkdown("- one\n* two\n  - nested\n    + deeper")).toBe(
+      "• one\n• two\n  • nested\n    • deeper",
+    );
+  });
+
+  it("keeps ordered list numbers", () => {
+    expect(formatMarkdown("1. first\n2) second")).toBe("1. first\n2. second");
+  });
+
+  it("renders task list checkboxes", () => {
+    expect(formatMarkdown("- [ ] todo\n- [x] done")).toBe("• ☐ todo\n• ☑ done");
+  });
+
+  it("formats links as text (url)", () => {
+    expect(formatMarkdown("See [the docs](https://example.com/docs \"Docs\").")).toBe(
+      "See the docs (https://example.com/docs).",
+    );
+  });
+
+  it("does not repeat the url when the label is the url", () => {
+    expect(formatMarkdown("[https://example.com](https://example.com)")).toBe(
+      "https://example.com",
+    );
+    expect(formatMarkdown("<https://example.com> or [me@x.com](mailto:me@x.com)")).toBe(
+      "https://example.com or me@x.com",
+    );
+  });
+
+  it("formats images as alt (url)", () => {
+    expect(formatMarkdown("![Logo](https://example.com/logo.png)")).toBe(
+      "Logo (https://example.com/logo.png)",
+    );
+  });
+
+  it("strips inline code backticks without formatting the contents", () => {
+    expect(formatMarkdown("Run `npm run **build**` now")).toBe("Run npm run **build** now");
+  });
+
+  it("keeps fenced code blocks verbatim", () => {
+    const text = "Example:\n\n```ts\nconst x = **y**;\n- not a list\n| a | b |\n|---|---|\n```\n\nDone **now**";
+    expect(formatMarkdown(text)).toBe(
+      "Example:\n\n```ts\nconst x = **y**;\n- not a list\n| a | b |\n|---|---|\n```\n\nDone now",
+    );
+  });
+
+  it("keeps an unterminated code block verbatim to the end", () => {
+    expect(formatMarkdown("Text\n~~~\n# not heading")).toBe("Text\n~~~\n# not heading");
+  });
+
+  it("converts blockquotes and horizontal rules", () => {
+    expect(formatMarkdown("> quoted **text**\n\n---\n\nafter")).toBe(
+      "│ quoted text\n\n──────────\n\nafter",
+    );
+  });
+
+  it("honours backslash escapes", () => {
+    expect(formatMarkdown("\\*not italic\\* and \\# literal")).toBe("*not italic* and # literal");
+  });
+
+  it("collapses runs of blank lines and trims", () => {
+    expect(formatMarkdown("\n\na\n\n\n\nb\n\n")).toBe("a\n\nb");
+  });
+
+  it("normalises Windows line endings", () => {
+    expect(formatMarkdown("# Hi\r\n- item")).toBe("Hi\n• item");
+  });
+});
+
+describe("formatMarkdown() minimal mode", () => {
+  it("keeps list markers, quotes and inline code as written", () => {
+    expect(formatMarkdown("- **one**\n> quote\nuse `x`", "minimal")).toBe(
+      "- one\n> quote\nuse `x`",
+    );
+  });
+
+  it("still converts headings, links and tables", () => {
+    const text = "## Head\n[a](https://a.example)\n\n| k | v |\n|---|---|\n| x | 1 |";
+    expect(formatMarkdown(text, "minimal")).toBe("Head\na (https://a.example)\n\nk  v\nx  1");
+  });
+
+  it("keeps single-asterisk emphasis", () => {
+    expect(formatMarkdown("*maybe*", "minimal")).toBe("*maybe*");
+  });
+});
+
+describe("formatTable()", () => {
+  it("aligns columns and drops the separator row", () => {
+    expect(
+      formatTable(["| Name | Qty |", "|------|----:|", "| Apple | 3 |", "| Kiwi | 12 |"]),
+    ).toEqual(["Name   Qty", "Apple    3", "Kiwi    12"]);
+  });
+
+  it("centres columns marked :---:", () => {
+    expect(formatTable(["a|b", ":-:|-", "xxx|y"])).toEqual([" a   b", "xxx  y"]);
+  });
+
+  it("formats inline markup in cells and handles escaped pipes", () => {
+    expect(formatTable(["| **k** | v |", "|---|---|", "| a \\| b | [l](https://l.example) |"])).toEqual([
+      "k      v",
+      "a | b  l (https://l.example)",
+    ]);
+  });
+
+  it("pads short rows and measures emoji as one character", () => {
+    expect(formatTable(["| a | b |", "|---|---|", "| 🎉 |"])).toEqual(["a  b", "🎉"]);
+  });
+
+  it("is applied to tables embedded in text", () => {
+    const text = "Results:\n| x | y |\n| --- | --- |\n| 1 | 2 |\nThat's all.";
+    expect(formatMarkdown(text)).toBe("Results:\nx  y\n1  2\nThat's all.");
+  });
+});
+
+describe("formatInline()", () => {
+  it("does not treat a lone asterisk or underscore as emphasis", () => {
+    expect(formatInline("5 * 3 and a_b")).toBe("5 * 3 and a_b");
+  });
+
+  it("handles double-backtick code spans containing backticks", () => {
+    expect(formatInline("``a `b` c``", "minimal")).toBe("``a `b` c``");
+    expect(formatInline("``a `b` c``")).toBe("a `b` c");
+  });
+});
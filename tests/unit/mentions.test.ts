@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { mentionsAgent } from "../../src/mentions.js";
+
+describe("mentionsAgent()", () => {
+  const identity = { name: "Jarvis", emoji: "🤖" };
+
+  it("matches the name as a whole word, case-insensitively", () => {
+    expect(mentionsAgent("hey jarvis, what's up?", identity)).toBe(true);
+    expect(mentionsAgent("@Jarvis help", identity)).toBe(true);
+    expect(mentionsAgent("Jarvis", identity)).toBe(true);
+  });
+
+  it("does not match the name inside another word", () => {
+    expect(mentionsAgent("jarvisland is closed", identity)).toBe(false);
+  });
+
+  it("matches the agent's emoji", () => {
+    expect(mentionsAgent("🤖 what time is it", identity)).toBe(true);
+  });
+
+  it("handles names with regex characters", () => {
+    expect(mentionsAgent("ask C.H.A.D. please", { name: "C.H.A.D." })).toBe(true);
+    expect(mentionsAgent("ask CxHxAxDx please", { name: "C.H.A.D." })).toBe(false);
+  });
+
+  it("returns false without a name or emoji", () => {
+    expect(mentionsAgent("hello", {})).toBe(false);
+  });
+});
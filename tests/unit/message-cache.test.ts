@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { MessageCache } from "../../src/message-cache.js";
+
+function entry(guid: string) {
+  return { guid, chatGuid: "chat", text: guid, sender: "+1555", isFromMe: false, dateCreated: 0 };
+}
+
+describe("MessageCache", () => {
+  it("stores and retrieves messages by GUID", () => {
+    const cache = new MessageCache();
+    cache.set(entry("a"));
+    expect(cache.get("a")?.text).toBe("a");
+    expect(cache.has("b")).toBe(false);
+  });
+
+  it("evicts the oldest entries beyond maxSize", () => {
+    const cache = new MessageCache(2);
+    cache.set(entry("a"));
+    cache.set(entry("b"));
+    cache.set(entry("a"));
+    cache.set(entry("c"));
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+    expect(cache.size).toBe(2);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  DEFAULT_OUTBOUND_MIME_TYPES,
+  isMimeAllowed,
+  loadOutboundAttachment,
+  mimeTypeForPath,
+  splitAttachments,
+  type OutboundLimits,
+} from "../../src/outbound-attachments.js";
+
+describe("splitAttachments()", () => {
+  let ROOT: string;
+  let limits: OutboundLimits;
+
+  beforeEach(async () => {
+    ROOT = await mkdtemp(path.join(os.tmpdir(), "bb-split-"));
+    limits = { maxBytes: 1024, allowedMimeTypes: DEFAULT_OUTBOUND_MIME_TYPES, roots: [ROOT] };
+    await mkdir(path.join(ROOT, "out"));
+    await mkdir(path.join(ROOT, "data"));
+    await mkdir(path.join(ROOT, "plugins", "bluebubbles", "attachments", "other"), {
+      recursive: true,
+    });
+    for (const file of [
+      "out/chart.png",
+      "report.pdf",
+      "a.png",
+      "b.png",
+      "data/report.csv",
+      "plugins/bluebubbles/attachments/other/photo.png",
+    ]) {
+      await writeFile(path.join(ROOT, file), "bytes");
+    }
+  });
+
+  afterEach(async () => {
+    await rm(ROOT, { recursive: true, force: true });
+  });
+
+  it("returns plain text as a single segment", async () => {
+    expect(await splitAttachments("Hello there.", limits)).toEqual([
+      { type: "text", text: "Hello there." },
+    ]);
+  });
+
+  it("splits around a local path inside the root, keeping order", async () => {
+    const text = `Here is the chart: ${ROOT}/out/chart.png. Let me know!`;
+    expect(await splitAttachments(text, limits)).toEqual([
+      { type: "text", text: "Here is the chart:" },
+      { type: "attachment", source: `${ROOT}/out/chart.png`, name: undefined },
+      { type: "text", text: ". Let me know!" },
+    ]);
+  });
+
+  it("uses markdown image alt text as the name", async () => {
+    const segments = await splitAttachments(
+      `Before\n![Sales chart](${ROOT}/chart.png)\nAfter`,
+      limits,
+    );
+    expect(segments).toEqual([
+      { type: "text", text: "Before" },
+      { type: "attachment", source: `${ROOT}/chart.png`, name: "Sales chart" },
+      { type: "text", text: "After" },
+    ]);
+  });
+
+  it("treats data URIs as attachments", async () => {
+    const segments = await splitAttachments("Look: data:image/png;base64,iVBORw0K", limits);
+    expect(segments[1]).toEqual({
+      type: "attachment",
+      source: "data:image/png;base64,iVBORw0K",
+      name: undefined,
+    });
+  });
+
+  it("accepts file:// URIs", async () => {
+    const segments = await splitAttachments(`file://${ROOT}/report.pdf`, limits);
+    expect(segments).toEqual([
+      { type: "attachment", source: `file://${ROOT}/report.pdf`, name: undefined },
+    ]);
+  });
+
+  it("leaves paths outside the root and remote images as text", async () => {
+    const text = "See /etc/passwd and ![logo](https://example.com/logo.png)";
+    expect(await splitAttachments(text, limits)).toEqual([{ type: "text", text }]);
+  });
+
+  it("does not treat traversal out of the root as inside it", async () => {
+    const text = `${ROOT}/../secrets.txt`;
+    expect(await splitAttachments(text, limits)).toEqual([{ type: "text", text }]);
+  });
+
+  it("leaves bare paths to directories and missing files as text", async () => {
+    const text = `I saved your notes in ${ROOT}/data and ${ROOT}/notes.txt, edit them there.`;
+    expect(await splitAttachments(text, limits)).toEqual([{ type: "text", text }]);
+  });
+
+  it("leaves bare paths to files it may not send as text", async () => {
+    await writeFile(path.join(ROOT, "big.png"), Buffer.alloc(2048));
+    await writeFile(path.join(ROOT, "page.html"), "<html>");
+    const text = `See ${ROOT}/big.png and ${ROOT}/page.html`;
+    expect(await splitAttachments(text, limits)).toEqual([{ type: "text", text }]);
+  });
+
+  it("handles several attachments in a row", async () => {
+    const segments = await splitAttachments(`${ROOT}/a.png ${ROOT}/b.png`, limits);
+    expect(segments.map((s) => s.type)).toEqual(["attachment", "attachment"]);
+  });
+
+  it("leaves paths inside fenced code and inline code as text", async () => {
+    const text = `Run this:\n\`\`\`sh\ncat ${ROOT}/data/report.csv\n\`\`\`\nthen \`ls ${ROOT}/data\`.`;
+    expect(await splitAttachments(text, limits)).toEqual([{ type: "text", text }]);
+  });
+
+  it("still finds attachments after a code block", async () => {
+    const segments = await splitAttachments(`\`${ROOT}/a.png\` looks like ${ROOT}/b.png`, limits);
+    expect(segments).toEqual([
+      { type: "text", text: `\`${ROOT}/a.png\` looks like` },
+      { type: "attachment", source: `${ROOT}/b.png`, name: undefined },
+    ]);
+  });
+
+  it("leaves paths in excluded directories as text", async () => {
+    const text = `${ROOT}/plugins/bluebubbles/attachments/other/photo.png`;
+    expect(
+      await splitAttachments(text, { ...limits, excluded: [`${ROOT}/plugins/bluebubbles`] }),
+    ).toEqual([{ type: "text", text }]);
+  });
+});
+
+describe("isMimeAllowed()", () => {
+  it("supports exact types and wildcards", () => {
+    expect(isMimeAllowed("image/png", ["image/*"])).toBe(true);
+    expect(isMimeAllowed("application/pdf", ["application/pdf"])).toBe(true);
+    expect(isMimeAllowed("text/html", DEFAULT_OUTBOUND_MIME_TYPES)).toBe(false);
+    expect(isMimeAllowed("application/zip", ["*/*"])).toBe(true);
+  });
+});
+
+describe("mimeTypeForPath()", () => {
+  it("maps known extensions and falls back to octet-stream", () => {
+    expect(mimeTypeForPath("/x/photo.JPG")).toBe("image/jpeg");
+    expect(mimeTypeForPath("/x/file.unknown")).toBe("application/octet-stream");
+  });
+});
+
+describe("loadOutboundAttachment()", () => {
+  let root: string;
+  let limits: OutboundLimits;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), "bb-out-"));
+    limits = { maxBytes: 1024, allowedMimeTypes: DEFAULT_OUTBOUND_MIME_TYPES, roots: [root] };
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("loads a file inside the root", async () => {
+    await writeFile(path.join(root, "chart.png"), "png-bytes");
+    const att = await loadOutboundAttachment(path.join(root, "chart.png"), limits);
+    expect(att).toEqual({
+      data: Buffer.from("png-bytes"),
+      filename: "chart.png",
+      mimeType: "image/png",
+    });
+  });
+
+  it("decodes data URIs and names them from the alt text", async () => {
+    const att = await loadOutboundAttachment("data:image/png;base64,YWJj", limits, "My chart");
+    expect(att.data.toString()).toBe("abc");
+    expect(att.filename).toBe("My_chart.png");
+    expect(att.mimeType).toBe("image/png");
+  });
+
+  it("rejects files over the size limit", async () => {
+    await writeFile(path.join(root, "big.png"), Buffer.alloc(2048));
+    await expect(loadOutboundAttachment(path.join(root, "big.png"), limits)).rejects.toThrow(
+      /too large/,
+    );
+  });
+
+  it("rejects disallowed MIME types", async () => {
+    await writeFile(path.join(root, "page.html"), "<html>");
+    await expect(loadOutboundAttachment(path.join(root, "page.html"), limits)).rejects.toThrow(
+      /not allowed/,
+    );
+  });
+
+  it("rejects missing files", async () => {
+    await expect(loadOutboundAttachment(path.join(root, "nope.png"), limits)).rejects.toThrow(
+      "file not found",
+    );
+  });
+
+  it("rejects symlinks that escape the root", async () => {
+    const outside = await mkdtemp(path.join(os.tmpdir(), "bb-outside-"));
+    try {
+      await writeFile(path.join(outside, "secret.txt"), "secret");
+      await mkdir(path.join(root, "links"));
+      await symlink(path.join(outside, "secret.txt"), path.join(root, "links", "secret.txt"));
+      await expect(
+        loadOutboundAttachment(path.join(root, "links", "secret.txt"), limits),
+      ).rejects.toThrow(/outside/);
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects files in an excluded directory", async () => {
+    await mkdir(path.join(root, "logs"));
+    await writeFile(path.join(root, "logs", "plugin.txt"), "log");
+    await expect(
+      loadOutboundAttachment(path.join(root, "logs", "plugin.txt"), {
+        ...limits,
+        excluded: [path.join(root, "logs")],
+      }),
+    ).rejects.toThrow(/outside/);
+  });
+});
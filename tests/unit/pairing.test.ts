@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { PairingStore } from "../../src/pairing.js";
+
+describe("PairingStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "bb-pairing-"));
+    file = path.join(dir, "pairing.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("issues a 6-character code for a new sender", async () => {
+    const store = new PairingStore(file);
+    const result = await store.requestCode("+15551234567");
+    expect(result.status).toBe("created");
+    if (result.status !== "rate-limited") {
+      expect(result.request.code).toMatch(/^[A-Z2-9]{6}$/);
+    }
+  });
+
+  it("returns the existing code while a request is pending", async () => {
+    const store = new PairingStore(file);
+    const first = await store.requestCode("+15551234567");
+    const second = await store.requestCode("+15551234567");
+    expect(second.status).toBe("pending");
+    if (first.status === "created" && second.status === "pending") {
+      expect(second.request.code).toBe(first.request.code);
+    }
+  });
+
+  it("refuses new codes once maxPending is reached", async () => {
+    const store = new PairingStore(file, { maxPending: 2 });
+    await store.requestCode("+15550000001");
+    await store.requestCode("+15550000002");
+    const result = await store.requestCode("+15550000003");
+    expect(result.status).toBe("rate-limited");
+  });
+
+  it("expires codes after the TTL", async () => {
+    const store = new PairingStore(file, { codeTtlMs: 1000 });
+    const result = await store.requestCode("+15551234567", 0);
+    if (result.status !== "created") throw new Error("expected created");
+    expect(await store.approve(result.request.code, 5000)).toBeNull();
+    expect(store.isApproved("+15551234567")).toBe(false);
+  });
+
+  it("approves a code case-insensitively and persists the address", async () => {
+    const store = new PairingStore(file);
+    const result = await store.requestCode("User@Example.com");
+    if (result.status !== "created") throw new Error("expected created");
+
+    const address = await store.approve(result.request.code.toLowerCase());
+    expect(address).toBe("User@Example.com");
+    expect(store.isApproved("user@example.com")).toBe(true);
+
+    const reloaded = new PairingStore(file);
+    await reloaded.load();
+    expect(reloaded.isApproved("user@example.com")).toBe(true);
+    expect(reloaded.listPending()).toHaveLength(0);
+  });
+
+  it("persists pending codes so another process can approve them", async () => {
+    const store = new PairingStore(file);
+    const result = await store.requestCode("+15551234567");
+    if (result.status !== "created") throw new Error("expected created");
+
+    const other = new PairingStore(file);
+    await other.load();
+    expect(await other.approve(result.request.code)).toBe("+15551234567");
+
+    await store.load();
+    expect(store.isApproved("+15551234567")).toBe(true);
+  });
+
+  it("denies a pending code without approving it", async () => {
+    const store = new PairingStore(file);
+    const result = await store.requestCode("+15551234567");
+    if (result.status !== "created") throw new Error("expected created");
+
+    expect(await store.deny(result.request.code)).toBe("+15551234567");
+    expect(store.isApproved("+15551234567")).toBe(false);
+    expect(store.listPending()).toHaveLength(0);
+  });
+
+  it("revokes an approved address", async () => {
+    const store = new PairingStore(file);
+    const result = await store.requestCode("+15551234567");
+    if (result.status !== "created") throw new Error("expected created");
+    await store.approve(result.request.code);
+
+    expect(await store.revoke("+15551234567")).toBe(true);
+    expect(store.isApproved("+15551234567")).toBe(false);
+    expect(await store.revoke("+15551234567")).toBe(false);
+
+    const saved = JSON.parse(await readFile(file, "utf8"));
+    expect(saved.approved).toEqual([]);
+  });
+
+  it("load() tolerates a missing file", async () => {
+    const store = new PairingStore(path.join(dir, "missing", "pairing.json"));
+    await expect(store.load()).resolves.toBeUndefined();
+    expect(store.listApproved()).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { RateLimiter } from "../../src/rate-limiter.js";
+
+describe("RateLimiter", () => {
+  it("allows a burst up to perMinute, then throttles", () => {
+    const limiter = new RateLimiter({ perMinute: 3 });
+    expect(limiter.consume("a", 0)).toBe(true);
+    expect(limiter.consume("a", 0)).toBe(true);
+    expect(limiter.consume("a", 0)).toBe(true);
+    expect(limiter.consume("a", 0)).toBe(false);
+  });
+
+  it("refills tokens over time", () => {
+    const limiter = new RateLimiter({ perMinute: 60 });
+    for (let i = 0; i < 60; i++) limiter.consume("a", 0);
+    expect(limiter.consume("a", 0)).toBe(false);
+    expect(limiter.consume("a", 1000)).toBe(true);
+    expect(limiter.consume("a", 1000)).toBe(false);
+  });
+
+  it("tracks keys independently", () => {
+    const limiter = new RateLimiter({ perMinute: 1 });
+    expect(limiter.consume("a", 0)).toBe(true);
+    expect(limiter.consume("b", 0)).toBe(true);
+    expect(limiter.consume("a", 0)).toBe(false);
+  });
+
+  it("allows one notice per interval", () => {
+    const limiter = new RateLimiter({ perMinute: 1, noticeIntervalMs: 60_000 });
+    expect(limiter.shouldNotify("a", 0)).toBe(true);
+    expect(limiter.shouldNotify("a", 30_000)).toBe(false);
+    expect(limiter.shouldNotify("a", 60_000)).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { redactText, redactValue } from "../../src/redact.js";
+
+describe("redactText()", () => {
+  it("masks the configured secret, including its URL-encoded form", () => {
+    const secret = "p@ss word";
+    const text = `fetch failed: http://host/api/v1/ping?x=${encodeURIComponent(secret)} (${secret})`;
+    expect(redactText(text, { secrets: [secret] })).toBe(
+      "fetch failed: http://host/api/v1/ping?x=[REDACTED] ([REDACTED])",
+    );
+  });
+
+  it("masks auth query parameters even without a known secret", () => {
+    expect(redactText("GET /api/v1/chat?password=hunter2&limit=5 /socket?guid=abc")).toBe(
+      "GET /api/v1/chat?password=[REDACTED]&limit=5 /socket?guid=[REDACTED]",
+    );
+  });
+
+  it("masks Authorization header values", () => {
+    expect(redactText('{"Authorization":"Bearer hunter2","x":1}')).toBe(
+      '{"Authorization":"[REDACTED]","x":1}',
+    );
+    expect(redactText("authorization: Basic dXNlcjpwdw==")).toBe("authorization: [REDACTED]");
+  });
+
+  it("leaves contact details alone unless asked", () => {
+    const text = "From +15551234567 <jane.doe@example.com>";
+    expect(redactText(text)).toBe(text);
+    expect(redactText(text, { contacts: true })).toBe("From +*********67 <j***@example.com>");
+  });
+
+  it("masks phone numbers inside chat GUIDs but not timestamps", () => {
+    expect(redactText("iMessage;-;+15551234567 at 1700000000000", { contacts: true })).toBe(
+      "iMessage;-;+*********67 at 1700000000000",
+    );
+  });
+});
+
+describe("redactValue()", () => {
+  it("redacts nested strings, arrays and errors in place", () => {
+    const err = new Error("failed ?password=hunter2");
+    const info = {
+      message: "request with hunter2",
+      meta: { urls: ["http://h/?token=abc"], err },
+      [Symbol.for("splat")]: ["hunter2"],
+    };
+
+    redactValue(info, { secrets: ["hunter2"] });
+
+    expect(info.message).toBe("request with [REDACTED]");
+    expect(info.meta.urls[0]).toBe("http://h/?token=[REDACTED]");
+    expect(err.message).toBe("failed ?password=[REDACTED]");
+    expect(err.stack).not.toContain("hunter2");
+    expect(info[Symbol.for("splat")]).toEqual(["[REDACTED]"]);
+  });
+
+  it("survives circular references and leaves buffers alone", () => {
+    const buf = Buffer.from("hunter2");
+    const info: Record<string, unknown> = { buf, text: "hunter2" };
+    info.self = info;
+
+    redactValue(info, { secrets: ["hunter2"] });
+
+    expect(info.text).toBe("[REDACTED]");
+    expect(buf.toString()).toBe("hunter2");
+  });
+});
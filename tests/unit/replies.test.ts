@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { describeReply } from "../../src/replies.js";
+
+describe("describeReply()", () => {
+  it("quotes the original text and who sent it", () => {
+    expect(describeReply({ text: "the blue one", sender: "Bob" })).toBe(
+      '(replying to Bob: "the blue one")',
+    );
+    expect(describeReply({ text: "Sydney", sender: null })).toBe(
+      '(replying to your message: "Sydney")',
+    );
+  });
+
+  it("shortens long quotes", () => {
+    const quote = describeReply({ text: "a".repeat(500), sender: "Bob" });
+    expect(quote.length).toBeLessThan(230);
+    expect(quote).toContain("…");
+  });
+
+  it("describes attachment-only and unsent originals", () => {
+    expect(describeReply({ text: "\ufffc", sender: "Bob" })).toBe(
+      "(replying to Bob: an attachment)",
+    );
+    expect(describeReply({ text: "oops", sender: "Bob", retracted: true })).toBe(
+      "(replying to Bob: an unsent message)",
+    );
+  });
+});
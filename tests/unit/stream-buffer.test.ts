@@ -0,0 +1,117 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import { StreamBuffer, findFlushBoundary } from "../../src/stream-buffer.js";
+
+describe("findFlushBoundary()", () => {
+  it("prefers the last paragraph break", () => {
+    const text = "First para. Still first.\n\nSecond para. More";
+    expect(findFlushBoundary(text)).toBe(text.indexOf("Second"));
+  });
+
+  it("falls back to the last sentence end", () => {
+    const text = "One. Two! Three";
+    expect(findFlushBoundary(text)).toBe(text.indexOf("Three"));
+  });
+
+  it("returns -1 when there is no complete sentence", () => {
+    expect(findFlushBoundary("no boundary here")).toBe(-1);
+  });
+
+  it("does not cut after a list marker", () => {
+    expect(findFlushBoundary("1. Open the app")).toBe(-1);
+    expect(findFlushBoundary("1. Open the app. Then")).toBe("1. Open the app. ".length);
+  });
+
+  it("cuts lists at line breaks rather than sentence ends", () => {
+    const text = "Steps:\n1. Open the app\n2. Tap settings. Then";
+    expect(findFlushBoundary(text)).toBe(text.indexOf("2."));
+  });
+
+  it("does not cut inside an open code fence", () => {
+    expect(findFlushBoundary("Intro.\n\n```js\nconst a = 1;\n\nconst b = 2;")).toBe(-1);
+  });
+});
+
+describe("StreamBuffer", () => {
+  let sent: Array<{ text: string; index: number }>;
+  let send: (text: string, index: number) => Promise<void>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+    send = async (text, index) => {
+      sent.push({ text, index });
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("flushes complete sentences once the minimum interval has passed", async () => {
+    const buffer = new StreamBuffer(send, { minIntervalMs: 1000, maxIntervalMs: 5000 });
+    buffer.push("Hello there. How ");
+    expect(sent).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual([{ text: "Hello there.", index: 0 }]);
+
+    buffer.push("are you?");
+    expect(await buffer.finish()).toBe(true);
+    expect(sent.map((s) => s.text)).toEqual(["Hello there.", "How are you?"]);
+    expect(sent[1].index).toBe(1);
+  });
+
+  it("keeps numbered list items whole while streaming", async () => {
+    const buffer = new StreamBuffer(send, { minIntervalMs: 100, maxIntervalMs: 5000 });
+    for (const token of ["Here are the steps:\n1. ", "Open the app\n2. ", "Tap settings\n3. ", "Done"]) {
+      buffer.push(token);
+      await vi.advanceTimersByTimeAsync(200);
+    }
+    await buffer.finish();
+
+    expect(sent.map((s) => s.text)).toEqual([
+      "Here are the steps:",
+      "1. Open the app",
+      "2. Tap settings",
+      "3. Done",
+    ]);
+  });
+
+  it("forces a flush at a word boundary after the maximum interval", async () => {
+    const buffer = new StreamBuffer(send, { minIntervalMs: 100, maxIntervalMs: 2000 });
+    buffer.push("a long run-on thought without punctu");
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(sent).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sent[0].text).toBe("a long run-on thought without");
+
+    await buffer.finish();
+    expect(sent[1].text).toBe("punctu");
+  });
+
+  it("keeps an open code block together until it closes", async () => {
+    const buffer = new StreamBuffer(send, { minIntervalMs: 0, maxIntervalMs: 10 });
+    buffer.push("```\nline one.\n\nline two.\n");
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sent).toHaveLength(0);
+
+    buffer.push("```\n\nDone.");
+    await buffer.finish();
+    expect(sent[0].text).toBe("```\nline one.\n\nline two.\n```");
+  });
+
+  it("finish() returns false when nothing was streamed", async () => {
+    const buffer = new StreamBuffer(send);
+    expect(await buffer.finish()).toBe(false);
+    expect(sent).toHaveLength(0);
+  });
+
+  it("cancel() drops buffered text", async () => {
+    const buffer = new StreamBuffer(send, { minIntervalMs: 1000 });
+    buffer.push("Pending text.");
+    buffer.cancel();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(await buffer.finish()).toBe(false);
+  });
+});
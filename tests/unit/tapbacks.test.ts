@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { describeTapback, parseTapback, stripAssociatedGuid } from "../../src/tapbacks.js";
+
+describe("parseTapback()", () => {
+  it("parses named tapbacks", () => {
+    expect(parseTapback("dislike")).toEqual({ kind: "dislike", removed: false });
+    expect(parseTapback("+love")).toEqual({ kind: "love", removed: false });
+  });
+
+  it("parses removals with a leading '-'", () => {
+    expect(parseTapback("-laugh")).toEqual({ kind: "laugh", removed: true });
+  });
+
+  it("parses raw iMessage codes", () => {
+    expect(parseTapback(2002)).toEqual({ kind: "dislike", removed: false });
+    expect(parseTapback("3005")).toEqual({ kind: "question", removed: true });
+  });
+
+  it("returns null for unknown types", () => {
+    expect(parseTapback("sticker")).toBeNull();
+    expect(parseTapback(1000)).toBeNull();
+    expect(parseTapback(null)).toBeNull();
+  });
+});
+
+describe("stripAssociatedGuid()", () => {
+  it("removes part-index prefixes", () => {
+    expect(stripAssociatedGuid("p:0/ABC-123")).toBe("ABC-123");
+    expect(stripAssociatedGuid("bp:ABC-123")).toBe("ABC-123");
+    expect(stripAssociatedGuid("ABC-123")).toBe("ABC-123");
+  });
+});
+
+describe("describeTapback()", () => {
+  it("describes a reaction with the target text", () => {
+    expect(describeTapback("+1555", { kind: "dislike", removed: false }, "The answer is 42")).toBe(
+      '+1555 disliked "The answer is 42"',
+    );
+  });
+
+  it("describes a removal", () => {
+    expect(describeTapback("+1555", { kind: "love", removed: true })).toBe(
+      "+1555 removed their love reaction from a message",
+    );
+  });
+
+  it("truncates long target text", () => {
+    const text = describeTapback("+1555", { kind: "like", removed: false }, "x".repeat(500));
+    expect(text.length).toBeLessThan(250);
+    expect(text).toContain("…");
+  });
+});
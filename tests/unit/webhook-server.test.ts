@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { WebhookServer } from "../../src/webhook-server.js";
+
+function makeHandlers() {
+  return {
+    onNewMessage: vi.fn(),
+    onUpdatedMessage: vi.fn(),
+    onTyping: vi.fn(),
+  };
+}
+
+describe("WebhookServer", () => {
+  let server: WebhookServer;
+  let handlers: ReturnType<typeof makeHandlers>;
+  let base: string;
+
+  async function post(body: unknown, pathAndQuery = "/hook", headers: Record<string, string> = {}) {
+    return fetch(`${base}${pathAndQuery}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    handlers = makeHandlers();
+    server = new WebhookServer(
+      { host: "127.0.0.1", port: 0, path: "/hook", secret: "s3cret", maxBodyBytes: 1024 },
+      handlers,
+    );
+    const port = await server.start();
+    base = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("dispatches new-message, updated-message and typing-indicator events", async () => {
+    const message = { guid: "m1", text: "hi" };
+    expect((await post({ type: "new-message", data: message }, "/hook?secret=s3cret")).status).toBe(200);
+    await post({ type: "updated-message", data: message }, "/hook?secret=s3cret");
+    await post({ type: "typing-indicator", data: { guid: "chat", display: true } }, "/hook?secret=s3cret");
+
+    expect(handlers.onNewMessage).toHaveBeenCalledWith(message);
+    expect(handlers.onUpdatedMessage).toHaveBeenCalledWith(message);
+    expect(handlers.onTyping).toHaveBeenCalledWith({ guid: "chat", display: true });
+  });
+
+  it("accepts the secret as a header or bearer token", async () => {
+    const event = { type: "new-message", data: { guid: "m1" } };
+    expect((await post(event, "/hook", { "X-Webhook-Secret": "s3cret" })).status).toBe(200);
+    expect((await post(event, "/hook", { Authorization: "Bearer s3cret" })).status).toBe(200);
+    expect(handlers.onNewMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects requests without the right secret", async () => {
+    const event = { type: "new-message", data: { guid: "m1" } };
+    expect((await post(event)).status).toBe(401);
+    expect((await post(event, "/hook?secret=wrong")).status).toBe(401);
+    expect(handlers.onNewMessage).not.toHaveBeenCalled();
+  });
+
+  it("rejects other paths, methods, bad JSON and oversized bodies", async () => {
+    expect((await post({}, "/other?secret=s3cret")).status).toBe(404);
+    expect((await fetch(`${base}/hook?secret=s3cret`)).status).toBe(405);
+    expect((await post("{not json", "/hook?secret=s3cret")).status).toBe(400);
+    expect((await post({ type: "new-message" }, "/hook?secret=s3cret")).status).toBe(400);
+    const big = { type: "new-message", data: { text: "x".repeat(2048) } };
+    expect((await post(big, "/hook?secret=s3cret")).status).toBe(413);
+    expect(handlers.onNewMessage).not.toHaveBeenCalled();
+  });
+
+  it("ignores other event types", async () => {
+    expect((await post({ type: "chat-read-status-changed", data: {} }, "/hook?secret=s3cret")).status).toBe(200);
+    expect(handlers.onNewMessage).not.toHaveBeenCalled();
+  });
+
+  it("refuses to start without a secret", async () => {
+    const open = new WebhookServer({ host: "127.0.0.1", port: 0, path: "/hook", secret: "" }, handlers);
+    await expect(open.start()).rejects.toThrow(/secret is required/);
+    expect(open.isListening()).toBe(false);
+  });
+
+  it("stops listening on stop()", async () => {
+    expect(server.isListening()).toBe(true);
+    await server.stop();
+    expect(server.isListening()).toBe(false);
+    await expect(post({}, "/hook")).rejects.toThrow();
+  });
+});